@@ -1,13 +1,36 @@
 
 
-import React, { useState, useCallback, useEffect, useRef } from 'react';
-import { GameState, type Difficulty, type GameAttempt } from './types';
-import { getRandomKoreanWord, calculateSimilarity, isApiKeyConfigured } from './services/geminiService';
-import DifficultySelector from './components/DifficultySelector';
+import React, { useState, useCallback, useEffect, useRef, useSyncExternalStore } from 'react';
+import { GameState, type Difficulty } from './types';
+import { createGameEngine, getCurrentPlayer, type GameEngine, type GameStatus } from './engine/gameEngine';
+import { isApiKeyConfigured, isGeminiRetrying, subscribeToGeminiRetries } from './services/geminiService';
+import { getSimilarityProvider } from './services/similarityProvider';
+import { getVerdictRejection } from './services/wordVerdict';
+import { getErrorMessage, RequestCancelledError, WordNotInVocabularyError } from './services/errors';
+import { DAILY_DIFFICULTY, getKstDateKey, getDailyStartWord, hasPlayedToday, markDailyAttemptStarted, recordDailyScore } from './services/dailyChallengeService';
+import { getGameLeaderboardScope, isRankedMode, startLeaderboardRun } from './services/leaderboardService';
+import { startScoreOutbox } from './services/scoreOutbox';
+import { attachGameRecording } from './services/gameStatsService';
+import { attachAchievements, onAchievementUnlocked, type Achievement } from './services/achievementService';
+import { attachGameSaving, clearSavedGame, loadSavedGame, restoreSavedGame, type SavedGame, type SavedGameContext } from './services/savedGameService';
+import { AI_STRENGTHS, chooseAiMove, getAiStrength, type AiStrength } from './services/aiOpponentService';
+import { createBridgePuzzle, type BridgeLevel } from './services/bridgeService';
+import { findHintCandidates, MAX_HINT_LEVEL } from './services/hintService';
+import { clearReplayFromLocation, getReplayFromLocation } from './services/replayLinkService';
+import type { WordCandidate } from './services/wordCandidates';
+import DifficultySelector, { type GameSetup } from './components/DifficultySelector';
 import GameScreen from './components/GameScreen';
 import GameOverScreen from './components/GameOverScreen';
+import LeaderboardScreen from './components/LeaderboardScreen';
+import ReplayScreen from './components/ReplayScreen';
+import StatsScreen from './components/StatsScreen';
+import AchievementsScreen from './components/AchievementsScreen';
+import AchievementToast from './components/AchievementToast';
+import OnlineLobby from './components/OnlineLobby';
+import { connectToRoomServer, type RoomConnection } from './services/onlineRoomService';
+import type { ClientMessage, RoomSnapshot, ServerMessage } from './server/protocol';
 import { LinkIcon, VolumeOnIcon, VolumeOffIcon } from './components/icons';
-import { playStartSound, playSuccessSound, playFailureSound, playClickSound, getIsMuted, toggleMute, playBackgroundMusic, stopBackgroundMusic, updateBackgroundMusic, initializeAudio } from './services/soundService';
+import { playClickSound, getIsMuted, toggleMute, playBackgroundMusic, initializeAudio, attachGameSounds, playAchievementSound } from './services/soundService';
 
 const ApiKeyError: React.FC = () => (
   <div className="min-h-screen bg-gradient-to-br from-purple-900 via-indigo-900 to-fuchsia-900 flex flex-col items-center justify-center p-4 text-center">
@@ -51,20 +74,74 @@ function useInterval(callback: () => void, delay: number | null) {
   }, [delay]);
 }
 
+/** How long each achievement toast stays on screen. */
+const ACHIEVEMENT_TOAST_MS = 3500;
+
+/** A short pause before the computer plays, so its move doesn't land instantly. */
+const AI_THINKING_DELAY_MS = 1200;
+
+/**
+ * Identifies the current turn, so hint candidates fetched for one turn are not shown in the next.
+ */
+function getTurnKey(state: { currentWord: string; history: unknown[] }): string {
+  return `${state.history.length}|${state.currentWord}`;
+}
+
+/**
+ * Maps the engine's status to the screen that should be shown.
+ * Outside of a game, the menu screen the player navigated to is shown.
+ */
+function getGameState(status: GameStatus, menuScreen: GameState): GameState {
+  switch (status) {
+    case 'idle':
+      return menuScreen;
+    case 'over':
+      return GameState.GAME_OVER;
+    default:
+      return GameState.PLAYING;
+  }
+}
+
 const App: React.FC = () => {
-  const [apiKeyAvailable] = useState(isApiKeyConfigured());
-  const [gameState, setGameState] = useState<GameState>(GameState.SELECTING_DIFFICULTY);
-  const [difficulty, setDifficulty] = useState<Difficulty | null>(null);
-  const [currentThreshold, setCurrentThreshold] = useState<number>(0);
-  const [score, setScore] = useState<number>(0);
-  const [currentWord, setCurrentWord] = useState<string>('');
-  const [history, setHistory] = useState<GameAttempt[]>([]);
-  const [lives, setLives] = useState<number>(3);
-  const [isLoading, setIsLoading] = useState<boolean>(false);
+  // Offline providers don't talk to Gemini, so they never need the key.
+  const [apiKeyAvailable] = useState(!getSimilarityProvider().requiresApiKey || isApiKeyConfigured());
+  const engineRef = useRef<GameEngine | null>(null);
+  if (!engineRef.current) {
+    engineRef.current = createGameEngine();
+  }
+  const engine = engineRef.current;
+  const game = useSyncExternalStore(engine.subscribe, engine.getState);
+  // While a Gemini request waits to be retried, the turn timer is frozen so the player doesn't lose time to the outage.
+  const isRetrying = useSyncExternalStore(subscribeToGeminiRetries, isGeminiRetrying);
+  // Requests made for a game are cancelled when it ends or restarts, so a late answer can't land in the next game.
+  const gameRequestsRef = useRef(new AbortController());
+  // A shared replay link opens straight into the replay.
+  const [encodedReplay, setEncodedReplay] = useState<string | null>(getReplayFromLocation);
+  const [menuScreen, setMenuScreen] = useState<GameState>(encodedReplay ? GameState.REPLAY : GameState.SELECTING_DIFFICULTY);
+  const gameState = getGameState(game.status, menuScreen);
+  const currentPlayer = getCurrentPlayer(game);
+
+  const [isStarting, setIsStarting] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
   const [isMuted, setIsMuted] = useState(getIsMuted());
   const [isShaking, setIsShaking] = useState<boolean>(false);
-  const [timeLeft, setTimeLeft] = useState(30);
+  const [aiStrength, setAiStrength] = useState<AiStrength>(AI_STRENGTHS[1]);
+  const [hintCandidates, setHintCandidates] = useState<{ turnKey: string; candidates: WordCandidate[] } | null>(null);
+  const [isHintLoading, setIsHintLoading] = useState<boolean>(false);
+  // Ranked games register with the leaderboard before they start, so their scores can be verified later.
+  const [runToken, setRunToken] = useState<string | null>(null);
+  // A game left unfinished by a refresh or a closed tab, offered on the menu until it is resumed or replaced.
+  const [savedGame, setSavedGame] = useState<SavedGame | null>(loadSavedGame);
+  const saveContextRef = useRef<SavedGameContext>({ runToken: null, aiStrength: null });
+  // Achievements unlocked together are announced one after another.
+  const [achievementToasts, setAchievementToasts] = useState<{ achievement: Achievement; playerName: string }[]>([]);
+  const currentToast = achievementToasts[0];
+
+  // Online rooms: the server owns the game, and its states are synced into the local engine.
+  const roomConnectionRef = useRef<RoomConnection | null>(null);
+  const [room, setRoom] = useState<RoomSnapshot | null>(null);
+  const [playerId, setPlayerId] = useState<string | null>(null);
+  const [isConnecting, setIsConnecting] = useState<boolean>(false);
 
   useEffect(() => {
     // This effect sets up a one-time event listener to unlock the audio context
@@ -86,170 +163,400 @@ const App: React.FC = () => {
     };
   }, []); // Empty dependency array ensures this runs only once on mount
 
+  useEffect(() => attachGameSounds(engine), [engine]);
+
+  useEffect(() => engine.onEvent(event => {
+    if (event.type === 'gameStarted' || event.type === 'gameRestarted') {
+      gameRequestsRef.current.abort();
+      gameRequestsRef.current = new AbortController();
+    }
+  }), [engine]);
+
+  // Scores that could not be submitted are retried in the background while the game is open.
+  useEffect(() => startScoreOutbox(), []);
 
   useEffect(() => {
-    updateBackgroundMusic(lives);
-  }, [lives]);
-  
-  const handleTimeout = useCallback(() => {
-    const newLives = lives - 1;
-    setLives(newLives);
-    setIsShaking(true);
-    setTimeout(() => setIsShaking(false), 500);
-    setScore(prev => Math.max(0, prev - 1000));
-
-    const attempt: GameAttempt = {
-      previousWord: currentWord,
-      newWord: '(시간 초과)',
-      similarity: 0,
-      success: false,
-      requiredThreshold: currentThreshold,
-      points: -1000,
+    saveContextRef.current = { runToken, aiStrength: aiStrength.id };
+  }, [runToken, aiStrength]);
+
+  useEffect(() => attachGameSaving(engine, () => saveContextRef.current), [engine]);
+
+  // Every finished game is kept for the stats screen.
+  useEffect(() => attachGameRecording(engine), [engine]);
+
+  useEffect(() => attachAchievements(engine), [engine]);
+
+  useEffect(() => onAchievementUnlocked((achievement, playerName) => {
+    setAchievementToasts(queue => [...queue, { achievement, playerName }]);
+  }), []);
+
+  useEffect(() => {
+    if (!currentToast) return;
+    playAchievementSound();
+    const timeout = setTimeout(() => setAchievementToasts(queue => queue.slice(1)), ACHIEVEMENT_TOAST_MS);
+    return () => clearTimeout(timeout);
+  }, [currentToast]);
+
+  useEffect(() => {
+    const shake = () => {
+      setIsShaking(true);
+      setTimeout(() => setIsShaking(false), 500); // Reset shake after animation
     };
-    setHistory(prev => [...prev, attempt]);
-    playFailureSound();
-    
-    if (newLives <= 0) {
-      setGameState(GameState.GAME_OVER);
-      stopBackgroundMusic();
-    } else {
-      setError(`시간 초과! 남은 기회: ${newLives}번.`);
-      setTimeLeft(30); // Reset timer for next attempt
-    }
-  }, [lives, currentWord, currentThreshold]);
 
+    return engine.onEvent((event, state) => {
+      switch (event.type) {
+        case 'gameStarted': {
+          // Starting another game replaces the unfinished one. Ranked games set their run token after starting.
+          setSavedGame(null);
+          setRunToken(null);
+          setError(null);
+          break;
+        }
+        case 'gameRestarted':
+        case 'evaluationStarted':
+          setError(null);
+          break;
+        case 'duplicateWord':
+          setError('이미 사용한 단어입니다. 다른 단어를 입력해주세요.');
+          break;
+        case 'wordRejected':
+          setError(event.reason);
+          break;
+        case 'evaluationFailed':
+          setError(event.message);
+          break;
+        case 'wordFailed':
+        case 'timedOut': {
+          shake();
+          const reason = event.type === 'wordFailed' ? '유사도 부족!' : '시간 초과!';
+          const who = event.attempt.author ? `${event.attempt.author}: ` : '';
+          if (event.livesLeft > 0) setError(`${who}${reason} 남은 기회: ${event.livesLeft}번.`);
+          break;
+        }
+        case 'playerEliminated':
+          setError(`${state.players[event.playerIndex].name} 님이 탈락했습니다!`);
+          break;
+        case 'gameOver':
+          if (state.mode === 'daily') recordDailyScore(event.score);
+          break;
+      }
+    });
+  }, [engine]);
+
+  // In online games the server runs the timer.
   useInterval(() => {
-    if (timeLeft <= 1) {
-      handleTimeout();
-    } else {
-      setTimeLeft(timeLeft - 1);
-    }
-  }, (gameState === GameState.PLAYING && !isLoading) ? 1000 : null);
+    engine.dispatch({ type: 'tick' });
+  }, game.status === 'playing' && game.mode !== 'online' && !isRetrying ? 1000 : null);
+
 
+  // Plays the computer's turn in versus games. Leaving the turn (a timeout or a restart) cancels the move.
+  const isComputerTurn = game.status === 'playing' && currentPlayer.isComputer;
+  useEffect(() => {
+    if (!isComputerTurn) return;
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      try {
+        const move = await chooseAiMove(engine.getState(), aiStrength, controller.signal);
+        if (controller.signal.aborted) return;
+        if (!move) {
+          // With nothing to play, the computer forfeits the turn.
+          engine.dispatch({ type: 'timeout' });
+          return;
+        }
+        engine.dispatch({ type: 'submitWord', word: move.word });
+        engine.dispatch({ type: 'similarityResolved', word: move.word, similarity: move.similarity });
+      } catch (e) {
+        if (controller.signal.aborted) return;
+        console.error("The computer opponent failed to move:", e);
+        setError(`AI가 단어를 고르지 못했습니다. 시간이 지나면 AI의 기회가 줄어듭니다. (${getErrorMessage(e, '알 수 없는 오류')})`);
+      }
+    }, AI_THINKING_DELAY_MS);
+    return () => {
+      controller.abort();
+      clearTimeout(timer);
+    };
+  }, [engine, aiStrength, isComputerTurn, game.currentPlayerIndex, game.history.length]);
 
   const handleToggleMute = () => {
     const newMutedState = toggleMute();
     setIsMuted(newMutedState);
     if (!newMutedState && gameState === GameState.PLAYING) {
-        playBackgroundMusic(lives);
+        playBackgroundMusic(currentPlayer.lives);
     }
   };
 
-  const handleSelectDifficulty = useCallback(async (selectedDifficulty: Difficulty) => {
-    setDifficulty(selectedDifficulty);
-    setCurrentThreshold(selectedDifficulty.threshold);
-    setIsLoading(true);
+  const handleSelectDifficulty = useCallback(async (selectedDifficulty: Difficulty, setup: GameSetup = {}) => {
+    setIsStarting(true);
     setError(null);
-    setHistory([]);
-    setScore(0);
-    setLives(3);
-    setTimeLeft(30);
     try {
-      const firstWord = await getRandomKoreanWord();
-      setCurrentWord(firstWord);
-      setGameState(GameState.PLAYING);
-      playStartSound();
-      // Fix: Called playBackgroundMusic with the initial number of lives (3), as a new game always starts with 3 lives.
-      playBackgroundMusic(3);
+      const mode = setup.aiStrength ? 'versus' : setup.playerNames ? 'hotseat' : 'classic';
+      // A leaderboard that verifies scores picks the start word of ranked games itself.
+      const run = isRankedMode(mode) ? await startLeaderboardRun(getGameLeaderboardScope(mode, selectedDifficulty), selectedDifficulty) : null;
+      const firstWord = run?.startWord ?? await getSimilarityProvider().getStartWord();
+      if (setup.aiStrength) {
+        const strength = getAiStrength(setup.aiStrength);
+        setAiStrength(strength);
+        // The player always moves first; the computer takes every other turn.
+        engine.dispatch({
+          type: 'start',
+          difficulty: selectedDifficulty,
+          startWord: firstWord,
+          mode: 'versus',
+          playerNames: [localStorage.getItem('localPlayerName') || '나', `AI (${strength.name})`],
+          computerPlayerIndex: 1,
+        });
+        return;
+      }
+      engine.dispatch({
+        type: 'start',
+        difficulty: selectedDifficulty,
+        startWord: firstWord,
+        mode,
+        playerNames: setup.playerNames,
+      });
+      setRunToken(run?.token ?? null);
     } catch (e) {
-      setError(e instanceof Error ? e.message : '시작 단어를 가져오는 중 알 수 없는 오류가 발생했습니다.');
-      setGameState(GameState.SELECTING_DIFFICULTY);
+      setError(getErrorMessage(e, '시작 단어를 가져오는 중 알 수 없는 오류가 발생했습니다.'));
     } finally {
-      setIsLoading(false);
+      setIsStarting(false);
     }
-  }, []);
+  }, [engine]);
 
-  const handleSubmitWord = useCallback(async (newWord: string) => {
-    if (!difficulty || !currentWord) return;
-
-    // Check for used words
-    const allPreviouslyUsedWords = new Set(history.map(attempt => attempt.newWord));
-    if (history.length > 0) {
-        allPreviouslyUsedWords.add(history[0].previousWord);
-    } else {
-        // Before the first submission, the only "used" word is the one given by the AI.
-        allPreviouslyUsedWords.add(currentWord);
+  const handleStartBridge = useCallback(async (level: BridgeLevel) => {
+    setIsStarting(true);
+    setError(null);
+    try {
+      const puzzle = await createBridgePuzzle(level.goalSimilarity);
+      engine.dispatch({
+        type: 'start',
+        difficulty: level.difficulty,
+        startWord: puzzle.startWord,
+        mode: 'bridge',
+        bridge: { targetWord: puzzle.targetWord, goalSimilarity: level.goalSimilarity, similarityToTarget: puzzle.similarityToTarget },
+      });
+    } catch (e) {
+      setError(getErrorMessage(e, '다리 놓기 문제를 만드는 중 알 수 없는 오류가 발생했습니다.'));
+    } finally {
+      setIsStarting(false);
     }
+  }, [engine]);
 
-    if (allPreviouslyUsedWords.has(newWord)) {
-      setError('이미 사용한 단어입니다. 다른 단어를 입력해주세요.');
+  const handleStartDaily = useCallback(async () => {
+    if (hasPlayedToday()) {
+      setError('오늘의 도전은 이미 참여했습니다. 내일 다시 도전하세요!');
       return;
     }
+    setIsStarting(true);
+    setError(null);
+    const dateKey = getKstDateKey();
+    markDailyAttemptStarted(dateKey);
+    try {
+      // Everyone gets the same seeded start word. A verifying leaderboard hands out that word with the run token.
+      const run = await startLeaderboardRun(getGameLeaderboardScope('daily', DAILY_DIFFICULTY, dateKey), DAILY_DIFFICULTY);
+      engine.dispatch({ type: 'start', difficulty: DAILY_DIFFICULTY, startWord: run?.startWord ?? getDailyStartWord(dateKey), mode: 'daily' });
+      setRunToken(run?.token ?? null);
+    } finally {
+      setIsStarting(false);
+    }
+  }, [engine]);
+
+  const handleServerMessage = useCallback((message: ServerMessage) => {
+    switch (message.type) {
+      case 'joined':
+        setPlayerId(message.playerId);
+        setRoom(message.room);
+        setError(null);
+        break;
+      case 'roomUpdated':
+        setRoom(message.room);
+        break;
+      case 'gameState':
+        engine.dispatch({ type: 'sync', state: message.state });
+        break;
+      case 'error':
+        setError(message.message);
+        break;
+    }
+  }, [engine]);
 
-    setIsLoading(true);
+  const leaveRoom = useCallback(() => {
+    const connection = roomConnectionRef.current;
+    roomConnectionRef.current = null;
+    if (connection) {
+      connection.send({ type: 'leaveRoom' });
+      connection.close();
+    }
+    setRoom(null);
+    setPlayerId(null);
+  }, []);
+
+  const sendToRoomServer = useCallback(async (message: ClientMessage) => {
+    setError(null);
+    if (!roomConnectionRef.current) {
+      setIsConnecting(true);
+      try {
+        roomConnectionRef.current = await connectToRoomServer(handleServerMessage, () => {
+          roomConnectionRef.current = null;
+          setRoom(null);
+          setError('온라인 방 서버와의 연결이 끊어졌습니다.');
+        });
+      } catch (e) {
+        setError(e instanceof Error ? e.message : '온라인 방 서버에 연결하지 못했습니다.');
+        return;
+      } finally {
+        setIsConnecting(false);
+      }
+    }
+    roomConnectionRef.current.send(message);
+  }, [handleServerMessage]);
+
+  const handleOpenOnline = () => {
+    setError(null);
+    setMenuScreen(GameState.ONLINE_LOBBY);
+  };
+
+  const handleLeaveOnline = () => {
+    leaveRoom();
     setError(null);
+    setMenuScreen(GameState.SELECTING_DIFFICULTY);
+  };
+
+  // Scores the word the engine is waiting on and reports the result back to it.
+  const evaluatePendingWord = useCallback(async () => {
+    const { pendingWord: newWord, currentWord, bridge } = engine.getState();
+    if (!newWord) return;
+    const { signal } = gameRequestsRef.current;
+
     try {
-      const similarity = await calculateSimilarity(currentWord, newWord);
-      const success = similarity >= currentThreshold;
-
-      if (success) {
-        const basePoints = Math.round((similarity - currentThreshold) * 10000);
-        const roundNumber = history.filter(h => h.success).length + 1;
-        const bonusPoints = Math.round(basePoints * (roundNumber * 0.2));
-        const totalPoints = Math.round((basePoints + bonusPoints) * difficulty.multiplier);
-        
-        const attempt: GameAttempt = {
-          previousWord: currentWord,
-          newWord,
-          similarity,
-          success,
-          requiredThreshold: currentThreshold,
-          points: totalPoints,
-        };
-        
-        setHistory(prev => [...prev, attempt]);
-        setScore(prev => prev + totalPoints);
-        setCurrentWord(newWord);
-        setCurrentThreshold(prev => prev + 0.01); // Increase threshold by 1%
-        setLives(3); // Reset lives on success
-        setTimeLeft(30); // Reset timer
-        playSuccessSound();
-      } else {
-        const newLives = lives - 1;
-        setLives(newLives);
-        setIsShaking(true);
-        setTimeout(() => setIsShaking(false), 500); // Reset shake after animation
-        setScore(prev => Math.max(0, prev - 1000)); // Deduct 1000 points
-
-        const attempt: GameAttempt = {
-          previousWord: currentWord,
-          newWord,
-          similarity,
-          success: false,
-          requiredThreshold: currentThreshold,
-          points: -1000,
-        };
-        setHistory(prev => [...prev, attempt]);
-        playFailureSound();
-        
-        if (newLives <= 0) {
-          setGameState(GameState.GAME_OVER);
-          stopBackgroundMusic();
-        } else {
-          setError(`유사도 부족! 남은 기회: ${newLives}번.`);
-          setTimeLeft(30); // Reset timer
-        }
+      const provider = getSimilarityProvider();
+      // In bridge mode the word is also measured against the target, to track progress.
+      // The score always comes from calculateSimilarity, so it is the same one the computer, hints and the leaderboard
+      // server see. Providers that can judge words also check that the word is a real noun.
+      const [similarity, verdict, targetSimilarity] = await Promise.all([
+        provider.calculateSimilarity(currentWord, newWord, signal),
+        provider.judgeWord?.(currentWord, newWord, signal),
+        bridge ? provider.calculateSimilarity(newWord, bridge.targetWord, signal) : undefined,
+      ]);
+      const rejection = verdict && getVerdictRejection(newWord, verdict);
+      if (rejection) {
+        // Like an unknown word, a non-word or a word that isn't a noun costs no life.
+        engine.dispatch({ type: 'wordRejected', word: newWord, reason: rejection });
+        return;
       }
+      engine.dispatch({ type: 'similarityResolved', word: newWord, similarity, targetSimilarity, reason: verdict?.reason });
     } catch (e) {
-      setError(e instanceof Error ? e.message : '유사도 계산 중 알 수 없는 오류가 발생했습니다.');
-    } finally {
-      setIsLoading(false);
+      // The game this word belonged to is gone.
+      if (e instanceof RequestCancelledError) return;
+      if (e instanceof WordNotInVocabularyError) {
+        // An unknown word is the player's miss, not a failed attempt: no life is lost.
+        engine.dispatch({ type: 'wordRejected', word: newWord, reason: e.message });
+        return;
+      }
+      engine.dispatch({
+        type: 'similarityFailed',
+        word: newWord,
+        message: getErrorMessage(e, '유사도 계산 중 알 수 없는 오류가 발생했습니다.'),
+      });
+    }
+  }, [engine]);
+
+  const handleSubmitWord = useCallback(async (newWord: string) => {
+    if (engine.getState().mode === 'online') {
+      // The room server scores the word and sends back the new state.
+      roomConnectionRef.current?.send({ type: 'submitWord', word: newWord });
+      return;
+    }
+
+    engine.dispatch({ type: 'submitWord', word: newWord });
+    // The engine refuses duplicates and submissions outside of the player's turn.
+    if (engine.getState().pendingWord !== newWord) return;
+    await evaluatePendingWord();
+  }, [engine, evaluatePendingWord]);
+
+  const handleResume = useCallback(() => {
+    if (!savedGame) return;
+    playClickSound();
+    setSavedGame(null);
+    setRunToken(savedGame.runToken);
+    if (savedGame.aiStrength) setAiStrength(getAiStrength(savedGame.aiStrength));
+    // Time that passed while the game was closed still counts, so resuming can't reset the timer.
+    engine.dispatch({ type: 'sync', state: restoreSavedGame(savedGame) });
+    // A word that was being scored is scored again; it can't be swapped for another. Scores come from
+    // calculateSimilarity, which is deterministic and cached, so reloading mid-evaluation can't change the score.
+    if (engine.getState().status === 'evaluating') evaluatePendingWord();
+  }, [engine, savedGame, evaluatePendingWord]);
+
+  const handleDiscardSavedGame = () => {
+    clearSavedGame();
+    setSavedGame(null);
+  };
+
+  const handleHint = useCallback(async () => {
+    const state = engine.getState();
+    if (state.status !== 'playing' || state.hintsUsed >= MAX_HINT_LEVEL) return;
+    const turnKey = getTurnKey(state);
+
+    let candidates = hintCandidates?.turnKey === turnKey ? hintCandidates.candidates : null;
+    if (!candidates) {
+      setIsHintLoading(true);
+      try {
+        candidates = await findHintCandidates(state, gameRequestsRef.current.signal);
+      } catch (e) {
+        if (e instanceof RequestCancelledError) return;
+        console.error("Failed to find hint candidates:", e);
+        setError(`힌트를 가져오지 못했습니다. ${getErrorMessage(e, '다시 시도해주세요.')}`);
+        return;
+      } finally {
+        setIsHintLoading(false);
+      }
+      setHintCandidates({ turnKey, candidates });
     }
-  }, [currentWord, difficulty, currentThreshold, history, lives]);
+
+    // The turn may have ended while the candidates were loading.
+    const latest = engine.getState();
+    if (latest.status !== 'playing' || getTurnKey(latest) !== turnKey) return;
+    if (candidates.length === 0) {
+      setError('지금은 목표를 넘는 힌트 단어를 찾지 못했어요. 점수는 차감되지 않았습니다.');
+      return;
+    }
+    engine.dispatch({ type: 'useHint' });
+  }, [engine, hintCandidates]);
+
+  useEffect(() => {
+    // A replay link pasted into the address bar of an open game only changes the hash.
+    const handleHashChange = () => {
+      const replay = getReplayFromLocation();
+      if (!replay || engine.getState().status !== 'idle') return;
+      setEncodedReplay(replay);
+      setMenuScreen(GameState.REPLAY);
+    };
+    window.addEventListener('hashchange', handleHashChange);
+    return () => window.removeEventListener('hashchange', handleHashChange);
+  }, [engine]);
+
+  const handleCloseReplay = () => {
+    clearReplayFromLocation();
+    setEncodedReplay(null);
+    setMenuScreen(GameState.SELECTING_DIFFICULTY);
+  };
 
   const handleRestart = () => {
     playClickSound();
-    stopBackgroundMusic();
-    setGameState(GameState.SELECTING_DIFFICULTY);
-    setDifficulty(null);
-    setCurrentThreshold(0);
-    setScore(0);
-    setCurrentWord('');
-    setHistory([]);
-    setError(null);
+    if (game.mode === 'online') {
+      leaveRoom();
+    }
+    setMenuScreen(GameState.SELECTING_DIFFICULTY);
+    engine.dispatch({ type: 'restart' });
   };
 
-  if (!apiKeyAvailable) {
+  // The room server puts everyone back in the lobby, where the host can start the next game.
+  const handleRestartInRoom = () => {
+    playClickSound();
+    sendToRoomServer({ type: 'restartGame' });
+  };
+
+  // Replays are rebuilt from the link alone, so they open without an API key.
+  if (!apiKeyAvailable && gameState !== GameState.REPLAY) {
     return <ApiKeyError />;
   }
   
@@ -269,31 +576,79 @@ const App: React.FC = () => {
       case GameState.PLAYING:
         return (
           <GameScreen
-            currentWord={currentWord}
-            score={score}
-            difficultyName={difficulty!.name}
-            currentThreshold={currentThreshold}
-            lives={lives}
-            timeLeft={timeLeft}
+            currentWord={game.currentWord}
+            score={currentPlayer.score}
+            difficultyName={game.difficulty!.name}
+            currentThreshold={game.currentThreshold}
+            lives={currentPlayer.lives}
+            timeLeft={game.timeLeft}
+            players={game.players}
+            currentPlayerIndex={game.currentPlayerIndex}
+            rules={game.difficulty!.rules}
+            bridge={game.bridge}
             onSubmit={handleSubmitWord}
-            isLoading={isLoading}
+            // Online games are scored by the room server, which doesn't hand out hints.
+            onHint={game.mode === 'online' ? undefined : handleHint}
+            hintLevel={game.hintsUsed}
+            hintCandidates={hintCandidates?.turnKey === getTurnKey(game) ? hintCandidates.candidates : null}
+            isHintLoading={isHintLoading}
+            isLoading={game.status === 'evaluating'}
+            isRetrying={isRetrying}
+            isMyTurn={game.mode === 'online' ? room?.players[game.currentPlayerIndex]?.id === playerId : !currentPlayer.isComputer}
             error={error}
           />
         );
       case GameState.GAME_OVER:
         return (
           <GameOverScreen
-            score={score}
-            history={history}
+            score={game.players[game.winnerIndex ?? 0].score}
+            history={game.history}
+            mode={game.mode}
+            difficulty={game.difficulty!}
+            bridge={game.bridge}
+            players={game.players}
+            winnerIndex={game.winnerIndex}
+            runToken={runToken}
             onRestart={handleRestart}
+            onRestartInRoom={game.mode === 'online' && room?.hostId === playerId ? handleRestartInRoom : undefined}
+          />
+        );
+      case GameState.ONLINE_LOBBY:
+        return (
+          <OnlineLobby
+            room={room}
+            playerId={playerId}
+            isConnecting={isConnecting}
+            error={error}
+            onCreate={(name, difficulty) => sendToRoomServer({ type: 'createRoom', name, difficulty })}
+            onJoin={(code, name) => sendToRoomServer({ type: 'joinRoom', code, name })}
+            onStart={() => sendToRoomServer({ type: 'startGame' })}
+            onLeave={handleLeaveOnline}
           />
         );
+      case GameState.LEADERBOARD:
+        return <LeaderboardScreen onBack={() => setMenuScreen(GameState.SELECTING_DIFFICULTY)} />;
+      case GameState.ACHIEVEMENTS:
+        return <AchievementsScreen onBack={() => setMenuScreen(GameState.SELECTING_DIFFICULTY)} />;
+      case GameState.STATS:
+        return <StatsScreen onBack={() => setMenuScreen(GameState.SELECTING_DIFFICULTY)} />;
+      case GameState.REPLAY:
+        return encodedReplay ? <ReplayScreen encodedReplay={encodedReplay} onClose={handleCloseReplay} /> : null;
       case GameState.SELECTING_DIFFICULTY:
       default:
         return (
           <DifficultySelector
             onSelect={handleSelectDifficulty}
-            isLoading={isLoading}
+            onStartDaily={handleStartDaily}
+            onStartBridge={handleStartBridge}
+            onOpenOnline={handleOpenOnline}
+            onOpenLeaderboard={() => setMenuScreen(GameState.LEADERBOARD)}
+            onOpenStats={() => setMenuScreen(GameState.STATS)}
+            onOpenAchievements={() => setMenuScreen(GameState.ACHIEVEMENTS)}
+            savedGame={savedGame}
+            onResume={handleResume}
+            onDiscardSavedGame={handleDiscardSavedGame}
+            isLoading={isStarting}
             error={error}
           />
         );
@@ -301,7 +656,10 @@ const App: React.FC = () => {
   };
 
   return (
-    <div className={`min-h-screen bg-gradient-to-br flex flex-col items-center justify-center p-2 sm:p-4 transition-all duration-1000 ${getBackgroundClasses(lives)} ${isShaking ? 'shake' : ''}`}>
+    <div className={`min-h-screen bg-gradient-to-br flex flex-col items-center justify-center p-2 sm:p-4 transition-all duration-1000 ${getBackgroundClasses(currentPlayer.lives)} ${isShaking ? 'shake' : ''}`}>
+      {currentToast && (
+        <AchievementToast achievement={currentToast.achievement} playerName={currentToast.playerName} showPlayerName={game.players.length > 1} />
+      )}
       <header className="text-center mb-4 sm:mb-8">
         <div className="flex items-center justify-center gap-2 sm:gap-4">
           <LinkIcon className="w-12 h-12 sm:w-16 sm:h-16 text-fuchsia-400" />
@@ -0,0 +1,26 @@
+import React from 'react';
+import type { Achievement } from '../services/achievementService';
+
+interface AchievementToastProps {
+  achievement: Achievement;
+  playerName: string;
+  /** Shown in multiplayer games, where several players can unlock achievements. */
+  showPlayerName: boolean;
+}
+
+const AchievementToast: React.FC<AchievementToastProps> = ({ achievement, playerName, showPlayerName }) => (
+  <div
+    role="status"
+    aria-live="polite"
+    className="fixed top-4 left-1/2 -translate-x-1/2 z-50 w-[90%] max-w-md flex items-center gap-3 p-4 bg-indigo-950/90 backdrop-blur-lg rounded-2xl border border-yellow-400/70 shadow-2xl shadow-yellow-500/20 animate-fade-in"
+  >
+    <span className="text-5xl">{achievement.icon}</span>
+    <div className="text-left">
+      <p className="text-xl sm:text-2xl text-yellow-300">🏅 업적 달성{showPlayerName ? ` · ${playerName}` : ''}</p>
+      <p className="text-3xl sm:text-4xl font-bold text-white leading-none">{achievement.title}</p>
+      <p className="text-lg sm:text-xl text-indigo-200">{achievement.description}</p>
+    </div>
+  </div>
+);
+
+export default AchievementToast;
@@ -0,0 +1,61 @@
+import React, { useState } from 'react';
+import { ACHIEVEMENTS, getAchievementPlayers, getUnlockedAchievements } from '../services/achievementService';
+import { playClickSound } from '../services/soundService';
+
+interface AchievementsScreenProps {
+  onBack: () => void;
+}
+
+const AchievementsScreen: React.FC<AchievementsScreenProps> = ({ onBack }) => {
+  const [players] = useState(getAchievementPlayers);
+  // Start with the name this device plays under, if it has earned anything.
+  const [playerName, setPlayerName] = useState<string>(() => {
+    const localName = localStorage.getItem('localPlayerName') || '나';
+    return players.includes(localName) ? localName : players[0] ?? localName;
+  });
+  const unlocked = getUnlockedAchievements(playerName);
+  const unlockedCount = ACHIEVEMENTS.filter(achievement => unlocked[achievement.id]).length;
+
+  return (
+    <div className="flex flex-col items-center space-y-4 sm:space-y-6 animate-fade-in text-2xl sm:text-3xl">
+      <h2 className="text-4xl sm:text-5xl font-bold text-fuchsia-300">🏅 배지</h2>
+
+      {players.length > 1 && (
+        <select
+          value={playerName}
+          onChange={(e) => setPlayerName(e.target.value)}
+          className="bg-black/30 border border-white/20 rounded-lg py-1 px-3 text-xl sm:text-2xl text-white"
+          aria-label="배지를 볼 플레이어"
+        >
+          {players.map(name => <option key={name} value={name}>{name}</option>)}
+        </select>
+      )}
+      <p className="text-indigo-200">{playerName} · {unlockedCount}/{ACHIEVEMENTS.length}개 달성</p>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 w-full">
+        {ACHIEVEMENTS.map(achievement => {
+          const unlockedAt = unlocked[achievement.id];
+          return (
+            <div
+              key={achievement.id}
+              className={`flex items-center gap-3 p-3 rounded-lg border ${unlockedAt ? 'bg-yellow-900/20 border-yellow-400/60' : 'bg-black/20 border-white/10 opacity-60'}`}
+            >
+              <span className={`text-5xl ${unlockedAt ? '' : 'grayscale'}`}>{unlockedAt ? achievement.icon : '🔒'}</span>
+              <div className="text-left">
+                <p className="text-2xl sm:text-3xl font-bold text-white leading-none">{achievement.title}</p>
+                <p className="text-lg sm:text-xl text-indigo-200">{achievement.description}</p>
+                {unlockedAt && <p className="text-lg text-yellow-300">{new Date(unlockedAt).toLocaleDateString('ko-KR')} 달성</p>}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <button onClick={() => { playClickSound(); onBack(); }} className="text-xl sm:text-2xl text-indigo-300 underline hover:text-white">
+        돌아가기
+      </button>
+    </div>
+  );
+};
+
+export default AchievementsScreen;
@@ -1,8 +1,15 @@
 
 import React, { useState } from 'react';
 import type { Difficulty } from '../types';
+import { DEFAULT_GAME_RULES, DISTANCE_DIFFICULTIES, PREDEFINED_DIFFICULTIES } from '../engine/gameEngine';
 import Spinner from './Spinner';
 import { playClickSound } from '../services/soundService';
+import { clearSimilarityCache } from '../services/similarityCache';
+import { getSavedPresets, savePreset, deletePreset } from '../services/presetService';
+import { getDailyStatus, hasPlayedToday } from '../services/dailyChallengeService';
+import { AI_STRENGTHS, type AiStrengthId } from '../services/aiOpponentService';
+import { BRIDGE_LEVELS, type BridgeLevel } from '../services/bridgeService';
+import type { SavedGame } from '../services/savedGameService';
 
 // Accordion Item component
 const AccordionItem: React.FC<{ title: string, children: React.ReactNode }> = ({ title, children }) => (
@@ -20,32 +27,186 @@ const AccordionItem: React.FC<{ title: string, children: React.ReactNode }> = ({
 );
 
 
+/** Who plays the game besides the local player. Empty for a solo game. */
+export interface GameSetup {
+  /** The names for a pass-and-play game with 2-4 players. */
+  playerNames?: string[];
+  /** The strength of the computer opponent in a versus game. */
+  aiStrength?: AiStrengthId;
+}
+
 interface DifficultySelectorProps {
-  onSelect: (difficulty: Difficulty) => void;
+  onSelect: (difficulty: Difficulty, setup?: GameSetup) => void;
+  onStartDaily: () => void;
+  onStartBridge: (level: BridgeLevel) => void;
+  onOpenOnline: () => void;
+  onOpenLeaderboard: () => void;
+  onOpenStats: () => void;
+  onOpenAchievements: () => void;
+  /** A game left unfinished by a refresh or a closed tab. */
+  savedGame: SavedGame | null;
+  onResume: () => void;
+  onDiscardSavedGame: () => void;
   isLoading: boolean;
   error: string | null;
 }
 
-const predefinedDifficulties: Difficulty[] = [
-  { name: '쉬움', threshold: 0.25, multiplier: 0.25 },
-  { name: '보통', threshold: 0.50, multiplier: 1.0 },
-  { name: '어려움', threshold: 0.75, multiplier: 2.0 },
-];
+// Labeled number input for one custom rule
+const RuleField: React.FC<{ label: string, value: string, onChange: (value: string) => void, min: number, max: number, step?: number, unit?: string, disabled: boolean }> = ({ label, value, onChange, min, max, step = 1, unit, disabled }) => (
+  <label className="flex flex-col text-left text-xl sm:text-2xl text-indigo-200">
+    <span>{label}{unit && <span className="text-slate-400"> ({unit})</span>}</span>
+    <input
+      type="number"
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      min={min}
+      max={max}
+      step={step}
+      disabled={disabled}
+      className="w-full bg-black/20 border border-white/20 rounded-lg py-2 px-3 text-white focus:ring-2 focus:ring-fuchsia-500 focus:border-fuchsia-500 text-2xl"
+    />
+  </label>
+);
 
-const DifficultySelector: React.FC<DifficultySelectorProps> = ({ onSelect, isLoading, error }) => {
+const DifficultySelector: React.FC<DifficultySelectorProps> = ({ onSelect, onStartDaily, onStartBridge, onOpenOnline, onOpenLeaderboard, onOpenStats, onOpenAchievements, savedGame, onResume, onDiscardSavedGame, isLoading, error }) => {
   const [customThreshold, setCustomThreshold] = useState<string>('30');
+  const [customMultiplier, setCustomMultiplier] = useState<string>('1');
+  const [customLives, setCustomLives] = useState<string>(String(DEFAULT_GAME_RULES.lives));
+  const [customTimer, setCustomTimer] = useState<string>(String(DEFAULT_GAME_RULES.timerSeconds));
+  const [customStep, setCustomStep] = useState<string>(String(DEFAULT_GAME_RULES.thresholdStep * 100));
+  const [customPenalty, setCustomPenalty] = useState<string>(String(DEFAULT_GAME_RULES.failurePenalty));
+  const [customBonus, setCustomBonus] = useState<string>(String(DEFAULT_GAME_RULES.roundBonus * 100));
+  const [customHintCost, setCustomHintCost] = useState<string>(String(DEFAULT_GAME_RULES.hintCost));
+  const [customDistant, setCustomDistant] = useState<boolean>(false);
+  const [customResetLives, setCustomResetLives] = useState<boolean>(DEFAULT_GAME_RULES.resetLivesOnSuccess);
+  const [presetName, setPresetName] = useState<string>('');
+  const [presets, setPresets] = useState<Difficulty[]>(getSavedPresets);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [cacheCleared, setCacheCleared] = useState<boolean>(false);
+  const [isHotSeat, setIsHotSeat] = useState<boolean>(false);
+  const [playerNames, setPlayerNames] = useState<string[]>(['', '']);
+  const [isVersusAi, setIsVersusAi] = useState<boolean>(false);
+  const [aiStrength, setAiStrength] = useState<AiStrengthId>('normal');
+  const [dailyStatus] = useState(getDailyStatus);
+  const [playedToday] = useState(hasPlayedToday);
+
+  // Starts the game, against the computer or as pass-and-play when chosen.
+  const startGame = (difficulty: Difficulty) => {
+    if (isVersusAi) {
+      onSelect(difficulty, { aiStrength });
+      return;
+    }
+    if (!isHotSeat) {
+      onSelect(difficulty);
+      return;
+    }
+    // Fill in blank names and keep them unique, since history rows are attributed by name.
+    const names = playerNames.map((name, i) => name.trim() || `플레이어 ${i + 1}`)
+      .map((name, i, all) => (all.indexOf(name) === i ? name : `${name} (${i + 1})`));
+    onSelect(difficulty, { playerNames: names });
+  };
+
+  const handlePlayerCountChange = (count: number) => {
+    playClickSound();
+    setPlayerNames(prev => Array.from({ length: count }, (_, i) => prev[i] ?? ''));
+  };
+
+  // Builds a difficulty from the custom form, or returns null if a value is out of range.
+  const buildCustomDifficulty = (name: string): Difficulty | null => {
+    const thresholdValue = parseInt(customThreshold, 10);
+    const multiplier = parseFloat(customMultiplier);
+    const lives = parseInt(customLives, 10);
+    const timerSeconds = parseInt(customTimer, 10);
+    const step = parseFloat(customStep);
+    const failurePenalty = parseInt(customPenalty, 10);
+    const bonus = parseFloat(customBonus);
+    const hintCost = parseInt(customHintCost, 10);
+
+    const inRange = (value: number, min: number, max: number) => !isNaN(value) && value >= min && value <= max;
+    if (!inRange(thresholdValue, 1, 100) || !inRange(multiplier, 0.1, 10) || !inRange(lives, 1, 5)
+        || !inRange(timerSeconds, 5, 120) || !inRange(step, 0, 10) || !inRange(failurePenalty, 0, 10000) || !inRange(bonus, 0, 100) || !inRange(hintCost, 0, 10000)) {
+      setFormError('규칙 값이 허용 범위를 벗어났습니다.');
+      return null;
+    }
+
+    setFormError(null);
+    return {
+      name,
+      threshold: thresholdValue / 100,
+      multiplier,
+      rules: {
+        direction: customDistant ? 'distant' : 'similar',
+        lives,
+        timerSeconds,
+        thresholdStep: step / 100,
+        failurePenalty,
+        roundBonus: bonus / 100,
+        resetLivesOnSuccess: customResetLives,
+        hintCost,
+      },
+    };
+  };
 
   const handleCustomSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     playClickSound();
-    const thresholdValue = parseInt(customThreshold, 10);
-    if (!isNaN(thresholdValue) && thresholdValue > 0 && thresholdValue <= 100) {
-      onSelect({ name: '커스텀', threshold: thresholdValue / 100, multiplier: 1.0 });
+    const difficulty = buildCustomDifficulty('커스텀');
+    if (difficulty) {
+      startGame(difficulty);
+    }
+  };
+
+  const handleSavePreset = () => {
+    playClickSound();
+    const name = presetName.trim();
+    if (!name) {
+      setFormError('프리셋 이름을 입력해주세요.');
+      return;
+    }
+    const difficulty = buildCustomDifficulty(name);
+    if (difficulty) {
+      setPresets(savePreset(difficulty));
+      setPresetName('');
+    }
+  };
+
+  const handleDeletePreset = (name: string) => {
+    playClickSound();
+    setPresets(deletePreset(name));
+  };
+
+  const handleClearCache = async () => {
+    playClickSound();
+    try {
+      await clearSimilarityCache();
+      setCacheCleared(true);
+    } catch (err) {
+      console.error("Failed to clear similarity cache:", err);
     }
   };
   
   return (
     <div className="flex flex-col items-center justify-center space-y-4 sm:space-y-6 animate-fade-in">
+      {savedGame && (
+        <div className="w-full bg-fuchsia-900/30 rounded-lg border border-fuchsia-500 p-4 text-center animate-fade-in">
+          <h3 className="text-3xl sm:text-4xl font-bold text-fuchsia-300">⏯️ 진행 중인 게임이 있어요</h3>
+          <p className="mt-1 text-xl sm:text-2xl text-indigo-200">
+            {savedGame.state.difficulty?.name} · {savedGame.state.players.length > 1 ? `${savedGame.state.players.length}명 대결` : `${savedGame.state.players[0].score.toLocaleString()}점`} · 현재 단어 '{savedGame.state.currentWord}'
+          </p>
+          <p className="text-lg sm:text-xl text-slate-400">저장된 뒤 흐른 시간만큼 남은 시간이 줄어들어요.</p>
+          <button
+            onClick={onResume}
+            disabled={isLoading}
+            className="mt-3 w-full px-6 py-3 text-3xl sm:text-4xl font-bold text-white bg-fuchsia-600 rounded-lg shadow-md hover:bg-fuchsia-500 disabled:bg-indigo-900/50 disabled:cursor-not-allowed"
+          >
+            이어하기
+          </button>
+          <button onClick={() => { playClickSound(); onDiscardSavedGame(); }} className="mt-2 text-xl sm:text-2xl text-indigo-300 underline hover:text-white">
+            버리고 새로 시작하기
+          </button>
+        </div>
+      )}
+
       <div className="w-full space-y-2 mb-4">
         <AccordionItem title="🤔 코사인 유사도란?">
             <p className="leading-relaxed">단어는 AI 모델에 의해 다차원 공간의 '벡터(vector)'라는 숫자 좌표로 표현됩니다. 코사인 유사도는 이 두 단어 벡터가 이루는 각도의 코사인 값을 측정하는 방법입니다. 두 벡터가 같은 방향을 가리킬수록(각도가 0°에 가까울수록) 코사인 값은 1에 가까워지며, 이는 두 단어의 의미가 매우 유사함을 의미합니다. 반대로, 방향이 반대가 될수록 값은 -1에 가까워집니다.(게임에서는 음수는 0점으로 처리했습니다. 감점되면 슬프니까.)</p>
@@ -58,21 +219,153 @@ const DifficultySelector: React.FC<DifficultySelectorProps> = ({ onSelect, isLoa
                 <li>성공할 때마다 목표 유사도가 조금씩 올라가 더 어려워져요. 실패하면 기회가 줄어들고, 기회를 모두 잃으면 게임이 종료돼요.</li>
             </ul>
         </AccordionItem>
+        <AccordionItem title="🔭 멀어지기 모드">
+            <ul className="list-decimal list-inside space-y-2 leading-relaxed">
+                <li>반대로, 제시된 단어와 <strong>의미가 먼</strong> 단어를 입력하는 모드예요.</li>
+                <li>입력한 단어의 유사도가 '최대 유사도' 이하이면 성공! 최대 유사도보다 더 멀리 떨어질수록 점수가 커져요.</li>
+                <li>성공할 때마다 최대 유사도가 조금씩 내려가서, 점점 더 동떨어진 단어를 찾아야 해요.</li>
+                <li>멀어지기 모드의 점수는 별도의 명예의 전당에 기록돼요.</li>
+            </ul>
+        </AccordionItem>
+        <AccordionItem title="🌉 다리 놓기">
+            <ul className="list-decimal list-inside space-y-2 leading-relaxed">
+                <li>시작 단어와 동떨어진 목적지 단어가 함께 주어지는 퍼즐이에요. (예: 바다 → 컴퓨터)</li>
+                <li>매 단계마다 목표 유사도를 넘는 단어로 이어 가다가, 목적지와의 유사도가 목표치에 닿으면 완성!</li>
+                <li>점수는 완성했을 때만 얻어요. 적은 걸음으로, 빨리 도착할수록 높은 점수를 받아요.</li>
+            </ul>
+        </AccordionItem>
         <AccordionItem title="💰 점수 계산">
              <ul className="list-disc list-inside space-y-2 leading-relaxed">
                 <li>점수는 <strong>(측정 유사도 - 목표 유사도)</strong>를 기준으로 계산돼요. 목표치를 아슬아슬하게 넘기는 것보다, 훨씬 높은 유사도의 단어를 제시하면 더 큰 점수를 얻을 수 있어요!</li>
                 <li>성공적으로 라운드를 이어갈수록 라운드 보너스 점수가 추가돼요.</li>
+                <li>막혔을 때는 💡 힌트로 첫 글자나 후보 단어를 볼 수 있지만, 힌트마다 점수가 차감돼요.</li>
                 <li>난이도에 따라 최종 점수에 가중치가 적용됩니다. (<strong>쉬움: 0.25배</strong>, <strong>보통: 1배</strong>, <strong>어려움: 2배</strong>)</li>
             </ul>
         </AccordionItem>
       </div>
 
+      <div className="w-full bg-amber-900/20 rounded-lg border border-amber-500/50 p-4 text-center">
+        <button
+          onClick={() => { playClickSound(); onStartDaily(); }}
+          disabled={isLoading || playedToday}
+          className="w-full px-6 py-3 sm:py-4 text-3xl sm:text-4xl font-bold text-white bg-amber-600 rounded-lg shadow-md hover:bg-amber-500 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-indigo-950 focus:ring-amber-400 transition-transform transform hover:scale-105 disabled:bg-indigo-900/50 disabled:cursor-not-allowed disabled:hover:scale-100"
+        >
+          {playedToday ? '☀️ 오늘의 도전 완료' : '☀️ 오늘의 도전'}
+        </button>
+        <p className="mt-2 text-xl sm:text-2xl text-amber-200">
+          {playedToday
+            ? `오늘 점수: ${(dailyStatus.lastScore ?? 0).toLocaleString()}점 · 🔥 ${dailyStatus.streak}일 연속`
+            : '모두가 같은 단어로 시작하는 하루 한 번의 도전!'}
+        </p>
+      </div>
+
+      <div className="w-full bg-black/20 rounded-lg border border-white/10 p-4">
+        <label className="flex items-center gap-3 text-2xl sm:text-3xl font-semibold text-indigo-200 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={isHotSeat}
+            onChange={(e) => { playClickSound(); setIsHotSeat(e.target.checked); if (e.target.checked) setIsVersusAi(false); }}
+            disabled={isLoading}
+            className="w-6 h-6 accent-fuchsia-500"
+          />
+          👥 함께 하기 (한 기기에서 2~4명)
+        </label>
+        {isHotSeat && (
+          <div className="mt-3 space-y-3 animate-fade-in">
+            <div className="flex items-center gap-2 text-xl sm:text-2xl text-indigo-200">
+              <span>인원:</span>
+              {[2, 3, 4].map(count => (
+                <button
+                  key={count}
+                  onClick={() => handlePlayerCountChange(count)}
+                  disabled={isLoading}
+                  className={`px-4 py-1 rounded-lg border ${playerNames.length === count ? 'bg-fuchsia-600 border-fuchsia-400 text-white' : 'bg-black/20 border-white/20'}`}
+                >
+                  {count}명
+                </button>
+              ))}
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+              {playerNames.map((name, i) => (
+                <input
+                  key={i}
+                  type="text"
+                  value={name}
+                  onChange={(e) => setPlayerNames(prev => prev.map((n, j) => (j === i ? e.target.value : n)))}
+                  placeholder={`플레이어 ${i + 1}`}
+                  maxLength={10}
+                  disabled={isLoading}
+                  className="bg-black/20 border border-white/20 rounded-lg py-2 px-3 text-2xl text-white placeholder-slate-500 focus:ring-2 focus:ring-fuchsia-500"
+                  aria-label={`플레이어 ${i + 1} 이름`}
+                />
+              ))}
+            </div>
+            <p className="text-lg sm:text-xl text-slate-400">차례대로 같은 꼬리를 이어가요. 기회를 모두 잃으면 탈락, 마지막까지 남은 사람이 우승!</p>
+          </div>
+        )}
+        <label className="mt-3 flex items-center gap-3 text-2xl sm:text-3xl font-semibold text-indigo-200 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={isVersusAi}
+            onChange={(e) => { playClickSound(); setIsVersusAi(e.target.checked); if (e.target.checked) setIsHotSeat(false); }}
+            disabled={isLoading}
+            className="w-6 h-6 accent-fuchsia-500"
+          />
+          🤖 AI와 대결하기
+        </label>
+        {isVersusAi && (
+          <div className="mt-3 space-y-3 animate-fade-in">
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+              {AI_STRENGTHS.map(strength => (
+                <button
+                  key={strength.id}
+                  onClick={() => { playClickSound(); setAiStrength(strength.id); }}
+                  disabled={isLoading}
+                  className={`py-1 rounded-lg border text-xl sm:text-2xl ${aiStrength === strength.id ? 'bg-fuchsia-600 border-fuchsia-400 text-white' : 'bg-black/20 border-white/20 text-indigo-200'}`}
+                >
+                  {strength.name}
+                </button>
+              ))}
+            </div>
+            <p className="text-lg sm:text-xl text-slate-400">AI와 번갈아 단어를 이어가요. 약한 AI는 목표를 아슬아슬하게 넘기고, 무자비한 AI는 가장 가까운 단어만 골라요.</p>
+          </div>
+        )}
+        <button
+          onClick={() => { playClickSound(); onOpenOnline(); }}
+          disabled={isLoading}
+          className="mt-3 w-full px-6 py-2 text-2xl sm:text-3xl font-semibold text-white bg-indigo-600 rounded-lg shadow-md hover:bg-indigo-500 disabled:bg-indigo-900/50 disabled:cursor-not-allowed"
+        >
+          🌐 다른 기기의 친구와 온라인으로 하기
+        </button>
+        <button
+          onClick={() => { playClickSound(); onOpenLeaderboard(); }}
+          disabled={isLoading}
+          className="mt-3 w-full px-6 py-2 text-2xl sm:text-3xl font-semibold text-white bg-indigo-600 rounded-lg shadow-md hover:bg-indigo-500 disabled:bg-indigo-900/50 disabled:cursor-not-allowed"
+        >
+          🏆 순위표 보기
+        </button>
+        <button
+          onClick={() => { playClickSound(); onOpenStats(); }}
+          disabled={isLoading}
+          className="mt-3 w-full px-6 py-2 text-2xl sm:text-3xl font-semibold text-white bg-indigo-600 rounded-lg shadow-md hover:bg-indigo-500 disabled:bg-indigo-900/50 disabled:cursor-not-allowed"
+        >
+          📊 내 기록 보기
+        </button>
+        <button
+          onClick={() => { playClickSound(); onOpenAchievements(); }}
+          disabled={isLoading}
+          className="mt-3 w-full px-6 py-2 text-2xl sm:text-3xl font-semibold text-white bg-indigo-600 rounded-lg shadow-md hover:bg-indigo-500 disabled:bg-indigo-900/50 disabled:cursor-not-allowed"
+        >
+          🏅 배지 보기
+        </button>
+      </div>
+
       <h2 className="text-4xl sm:text-5xl font-bold text-fuchsia-300">난이도 선택</h2>
       <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 w-full">
-        {predefinedDifficulties.map((level) => (
+        {PREDEFINED_DIFFICULTIES.map((level) => (
           <button
             key={level.name}
-            onClick={() => { playClickSound(); onSelect(level); }}
+            onClick={() => { playClickSound(); startGame(level); }}
             disabled={isLoading}
             className="w-full px-6 py-3 sm:py-4 text-2xl sm:text-3xl font-semibold text-white bg-purple-600 rounded-lg shadow-md hover:bg-purple-500 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-indigo-950 focus:ring-purple-400 transition-transform transform hover:scale-105 disabled:bg-indigo-900/50 disabled:cursor-not-allowed"
           >
@@ -81,6 +374,61 @@ const DifficultySelector: React.FC<DifficultySelectorProps> = ({ onSelect, isLoa
         ))}
       </div>
 
+      <h2 className="text-3xl sm:text-4xl font-bold text-cyan-300">🔭 멀어지기 모드</h2>
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 w-full">
+        {DISTANCE_DIFFICULTIES.map((level) => (
+          <button
+            key={level.name}
+            onClick={() => { playClickSound(); startGame(level); }}
+            disabled={isLoading}
+            className="w-full px-6 py-3 sm:py-4 text-2xl sm:text-3xl font-semibold text-white bg-cyan-700 rounded-lg shadow-md hover:bg-cyan-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-indigo-950 focus:ring-cyan-400 transition-transform transform hover:scale-105 disabled:bg-indigo-900/50 disabled:cursor-not-allowed"
+          >
+            {level.name} (≤{Math.round(level.threshold * 100)}%)
+          </button>
+        ))}
+      </div>
+
+      <h2 className="text-3xl sm:text-4xl font-bold text-teal-300">🌉 다리 놓기</h2>
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 w-full">
+        {BRIDGE_LEVELS.map((level) => (
+          <button
+            key={level.difficulty.name}
+            onClick={() => { playClickSound(); onStartBridge(level); }}
+            disabled={isLoading}
+            className="w-full px-6 py-3 sm:py-4 text-2xl sm:text-3xl font-semibold text-white bg-teal-700 rounded-lg shadow-md hover:bg-teal-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-indigo-950 focus:ring-teal-400 transition-transform transform hover:scale-105 disabled:bg-indigo-900/50 disabled:cursor-not-allowed"
+          >
+            {level.difficulty.name} ({Math.round(level.difficulty.threshold * 100)}% → {Math.round(level.goalSimilarity * 100)}%)
+          </button>
+        ))}
+      </div>
+
+      {presets.length > 0 && (
+        <div className="w-full space-y-2">
+          <h3 className="text-2xl sm:text-3xl font-semibold text-indigo-200">저장된 프리셋</h3>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            {presets.map((preset) => (
+              <div key={preset.name} className="flex items-stretch gap-2">
+                <button
+                  onClick={() => { playClickSound(); startGame(preset); }}
+                  disabled={isLoading}
+                  className="flex-grow px-4 py-2 text-2xl font-semibold text-white bg-indigo-600 rounded-lg shadow-md hover:bg-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-400 disabled:bg-indigo-900/50 disabled:cursor-not-allowed"
+                >
+                  {preset.name} ({preset.rules.direction === 'distant' ? '≤' : ''}{Math.round(preset.threshold * 100)}%)
+                </button>
+                <button
+                  onClick={() => handleDeletePreset(preset.name)}
+                  disabled={isLoading}
+                  className="px-3 text-2xl text-slate-300 bg-black/20 rounded-lg border border-white/10 hover:text-pink-300 disabled:cursor-not-allowed"
+                  aria-label={`${preset.name} 프리셋 삭제`}
+                >
+                  ✕
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       <div className="w-full pt-4 border-t border-white/10">
         <form onSubmit={handleCustomSubmit} className="flex flex-col sm:flex-row items-center gap-3">
           <div className="relative flex-grow w-full">
@@ -104,6 +452,61 @@ const DifficultySelector: React.FC<DifficultySelectorProps> = ({ onSelect, isLoa
             커스텀 시작
           </button>
         </form>
+
+        <details className="mt-3 bg-black/20 rounded-lg border border-white/10">
+          <summary className="p-3 cursor-pointer text-2xl text-fuchsia-300 list-none">⚙️ 세부 규칙 및 프리셋</summary>
+          <div className="p-3 border-t border-white/10 space-y-3">
+            <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+              <RuleField label="점수 배율" unit="배" value={customMultiplier} onChange={setCustomMultiplier} min={0.1} max={10} step={0.05} disabled={isLoading} />
+              <RuleField label="기회" unit="번" value={customLives} onChange={setCustomLives} min={1} max={5} disabled={isLoading} />
+              <RuleField label="제한 시간" unit="초" value={customTimer} onChange={setCustomTimer} min={5} max={120} disabled={isLoading} />
+              <RuleField label="목표 상승폭" unit="%p" value={customStep} onChange={setCustomStep} min={0} max={10} step={0.1} disabled={isLoading} />
+              <RuleField label="실패 감점" unit="점" value={customPenalty} onChange={setCustomPenalty} min={0} max={10000} step={100} disabled={isLoading} />
+              <RuleField label="라운드 보너스" unit="%" value={customBonus} onChange={setCustomBonus} min={0} max={100} disabled={isLoading} />
+              <RuleField label="힌트 비용" unit="점" value={customHintCost} onChange={setCustomHintCost} min={0} max={10000} step={100} disabled={isLoading} />
+            </div>
+            <label className="flex items-center gap-2 text-xl sm:text-2xl text-indigo-200">
+              <input
+                type="checkbox"
+                checked={customResetLives}
+                onChange={(e) => setCustomResetLives(e.target.checked)}
+                disabled={isLoading}
+                className="w-5 h-5 accent-fuchsia-500"
+              />
+              성공하면 기회를 모두 회복
+            </label>
+            <label className="flex items-center gap-2 text-xl sm:text-2xl text-indigo-200">
+              <input
+                type="checkbox"
+                checked={customDistant}
+                onChange={(e) => setCustomDistant(e.target.checked)}
+                disabled={isLoading}
+                className="w-5 h-5 accent-fuchsia-500"
+              />
+              멀어지기 모드 (입력한 %가 최대 유사도가 돼요)
+            </label>
+            <div className="flex flex-col sm:flex-row gap-3">
+              <input
+                type="text"
+                value={presetName}
+                onChange={(e) => setPresetName(e.target.value)}
+                placeholder="프리셋 이름"
+                maxLength={20}
+                disabled={isLoading}
+                className="flex-grow bg-black/20 border border-white/20 rounded-lg py-2 px-3 text-2xl text-white placeholder-slate-500 focus:ring-2 focus:ring-fuchsia-500"
+              />
+              <button
+                type="button"
+                onClick={handleSavePreset}
+                disabled={isLoading}
+                className="px-6 py-2 text-2xl font-semibold text-white bg-indigo-600 rounded-lg shadow-md hover:bg-indigo-500 disabled:bg-indigo-900/50 disabled:cursor-not-allowed"
+              >
+                프리셋 저장
+              </button>
+            </div>
+          </div>
+        </details>
+        {formError && <p className="text-pink-400 mt-2 text-xl sm:text-2xl">{formError}</p>}
       </div>
       
       {isLoading && (
@@ -114,6 +517,14 @@ const DifficultySelector: React.FC<DifficultySelectorProps> = ({ onSelect, isLoa
       )}
       
       {error && <p className="text-pink-400 mt-4 text-xl sm:text-2xl">{error}</p>}
+
+      <button
+        onClick={handleClearCache}
+        disabled={isLoading || cacheCleared}
+        className="text-lg sm:text-xl text-indigo-300 underline hover:text-white disabled:text-slate-500 disabled:no-underline disabled:cursor-not-allowed"
+      >
+        {cacheCleared ? '유사도 캐시를 비웠습니다' : '저장된 유사도 캐시 비우기'}
+      </button>
     </div>
   );
 };
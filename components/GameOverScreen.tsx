@@ -1,22 +1,52 @@
 
 import React, { useState, useEffect, FormEvent, useRef } from 'react';
-import type { GameAttempt } from '../types';
-import { calculateSimilarity } from '../services/geminiService';
-import { getLeaderboard, submitScore, type LeaderboardEntry } from '../services/leaderboardService';
+import type { Difficulty, GameAttempt, GameMode } from '../types';
+import { getSimilarityProvider } from '../services/similarityProvider';
+import { getLeaderboard, getLeaderboardRank, submitScore, getGameLeaderboardScope, getLocalHighScoreKey, isRankedMode, type RankedEntry } from '../services/leaderboardService';
+import { getDailyStatus } from '../services/dailyChallengeService';
+import { onOutboxEvent } from '../services/scoreOutbox';
+import { getErrorMessage, RequestCancelledError, ScoreRejectedError } from '../services/errors';
+import { createReplayUrl } from '../services/replayLinkService';
+import { checkFinalSimilarityAchievements } from '../services/achievementService';
+import { explainAttempt, isExplainable } from '../services/explanationService';
+import { renderResultCard, shareResultCard, type ShareOutcome } from '../services/resultCardService';
+import type { BridgeState, PlayerState } from '../engine/gameEngine';
+import PlayerBreakdown from './PlayerBreakdown';
+import SemanticMap from './SemanticMap';
 import { TrophyIcon, CheckCircleIcon, XCircleIcon, CrownIcon } from './icons';
 import Spinner from './Spinner';
 
 interface GameOverScreenProps {
   score: number;
   history: GameAttempt[];
+  mode: GameMode;
+  difficulty: Difficulty;
+  bridge: BridgeState | null;
+  players: PlayerState[];
+  winnerIndex: number | null;
+  /** Issued by the leaderboard when the game started, so the score can be verified. */
+  runToken: string | null;
   onRestart: () => void;
+  /** Given to the host of an online room, to play again in the same room. */
+  onRestartInRoom?: () => void;
 }
 
-const GameOverScreen: React.FC<GameOverScreenProps> = ({ score, history, onRestart }) => {
+type ExplanationState = { status: 'loading' } | { status: 'shown'; text: string } | { status: 'failed'; message: string };
+
+const GameOverScreen: React.FC<GameOverScreenProps> = ({ score, history, mode, difficulty, bridge, players, winnerIndex, runToken, onRestart, onRestartInRoom }) => {
+  const isDaily = mode === 'daily';
+  const isDistance = difficulty.rules.direction === 'distant';
+  const isRanked = isRankedMode(mode);
+  // The daily attempt is recorded when the game starts, so this is the date of the game just played.
+  const [dailyStatus] = useState(getDailyStatus);
+  // Scores only compete with others from the same board and difficulty, and so does the local high score.
+  const [scope] = useState(() => getGameLeaderboardScope(mode, difficulty, dailyStatus.lastPlayedDate ?? undefined));
+  const highScoreKey = getLocalHighScoreKey(scope);
   const [finalSimilarity, setFinalSimilarity] = useState<number | null>(null);
   const [isLoadingSimilarity, setIsLoadingSimilarity] = useState<boolean>(false);
 
-  const [leaderboard, setLeaderboard] = useState<LeaderboardEntry[] | null>(null);
+  const [leaderboard, setLeaderboard] = useState<RankedEntry[] | null>(null);
+  const [leaderboardTotal, setLeaderboardTotal] = useState<number>(0);
   const [isLoadingLeaderboard, setIsLoadingLeaderboard] = useState<boolean>(true);
   
   const [localHighScore, setLocalHighScore] = useState<number>(0);
@@ -26,38 +56,28 @@ const GameOverScreen: React.FC<GameOverScreenProps> = ({ score, history, onResta
 
   const [playerName, setPlayerName] = useState<string>('');
   const [isSubmitting, setIsSubmitting] = useState<boolean>(false);
-  const [submissionComplete, setSubmissionComplete] = useState<boolean>(false);
+  // 'pending' means the submission failed and waits in the outbox to be retried.
+  const [submission, setSubmission] = useState<{ id: string | null; status: 'submitted' | 'pending' | 'rejected' } | null>(null);
+  const submissionComplete = submission !== null;
   const [error, setError] = useState<string | null>(null);
   const nameInputRef = useRef<HTMLInputElement>(null);
-
-  const calculateRank = (scoreToRank: number, currentLeaderboard: LeaderboardEntry[]): number | null => {
-    if (scoreToRank <= 0) return null;
-
-    let rank: number | null = null;
-    for (let i = 0; i < currentLeaderboard.length; i++) {
-      if (scoreToRank > currentLeaderboard[i].score) {
-        rank = i + 1;
-        break;
-      } else if (scoreToRank === currentLeaderboard[i].score) {
-        rank = i + 1;
-        break;
-      }
-    }
-
-    if (rank === null && currentLeaderboard.length < 3) {
-      rank = currentLeaderboard.length + 1;
-    }
-    
-    return rank;
-  };
+  // Shown in a text box when the clipboard isn't available, so the link can be copied by hand.
+  const [replayLink, setReplayLink] = useState<{ url: string; copied: boolean } | null>(null);
+  const [isSharingCard, setIsSharingCard] = useState<boolean>(false);
+  const [shareOutcome, setShareOutcome] = useState<ShareOutcome | 'failed' | null>(null);
+  // "왜?" explanations opened in the game history, by attempt index.
+  const [explanations, setExplanations] = useState<Record<number, ExplanationState>>({});
+  // Cancels explanations still on their way when the player leaves this screen.
+  const explainRequestsRef = useRef<AbortController | null>(null);
 
   const fetchLeaderboardAndRank = async (scoreToRank: number) => {
     setIsLoadingLeaderboard(true);
     setError(null);
     try {
-      const data = await getLeaderboard();
-      setLeaderboard(data);
-      setPlayerRank(calculateRank(scoreToRank, data));
+      const [page, rank] = await Promise.all([getLeaderboard(scope), getLeaderboardRank(scope, scoreToRank)]);
+      setLeaderboard(page.entries);
+      setLeaderboardTotal(page.total);
+      setPlayerRank(rank);
     } catch (err) {
       console.error(err);
       setError('리더보드를 불러오는 데 실패했습니다. 잠시 후 다시 시도해 주세요.');
@@ -79,8 +99,9 @@ const GameOverScreen: React.FC<GameOverScreenProps> = ({ score, history, onResta
         if (firstWord !== lastWord) {
           setIsLoadingSimilarity(true);
           try {
-            const similarity = await calculateSimilarity(firstWord, lastWord);
+            const similarity = await getSimilarityProvider().calculateSimilarity(firstWord, lastWord);
             setFinalSimilarity(similarity);
+            checkFinalSimilarityAchievements(similarity, { mode, difficulty, players });
           } catch (e) {
             console.error("Could not calculate final similarity", e);
           } finally {
@@ -93,17 +114,28 @@ const GameOverScreen: React.FC<GameOverScreenProps> = ({ score, history, onResta
     };
     
     // 2. Load local high score and check for new record
-    const savedScore = parseInt(localStorage.getItem('localHighScore') || '0', 10);
+    const savedScore = parseInt(localStorage.getItem(highScoreKey) || '0', 10);
     const savedName = localStorage.getItem('localPlayerName') || '익명의 플레이어';
     setLocalHighScore(savedScore);
     setLocalPlayerName(savedName);
     
-    if (score > savedScore) {
-      setIsNewLocalHighScore(true);
-    }
+    if (!isRanked) {
+      setIsLoadingLeaderboard(false);
+    } else if (isDaily) {
+      // Every daily run is the one scored attempt of the day, so it can always be submitted.
+      setIsNewLocalHighScore(score > 0);
+      fetchLeaderboardAndRank(score);
+    } else {
+      if (score > savedScore) {
+        setIsNewLocalHighScore(true);
+        // The record belongs to this device whether or not it ever reaches the leaderboard.
+        localStorage.setItem(highScoreKey, String(score));
+        setLocalHighScore(score);
+      }
 
-    // 3. Fetch leaderboard and calculate rank for existing high score
-    fetchLeaderboardAndRank(savedScore);
+      // 3. Fetch leaderboard and calculate rank for the high score
+      fetchLeaderboardAndRank(Math.max(score, savedScore));
+    }
     calculateFinalWordSimilarity();
 
   }, [history]); // This effect runs only once when the component mounts.
@@ -114,6 +146,23 @@ const GameOverScreen: React.FC<GameOverScreenProps> = ({ score, history, onResta
       nameInputRef.current?.focus();
     }
   }, [isNewLocalHighScore, submissionComplete]);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    explainRequestsRef.current = controller;
+    return () => controller.abort();
+  }, []);
+
+  // Follows a queued submission until the outbox delivers it or the leaderboard refuses it.
+  const pendingId = submission?.status === 'pending' ? submission.id : null;
+  useEffect(() => {
+    if (!pendingId) return;
+    return onOutboxEvent(event => {
+      if (event.id !== pendingId) return;
+      setSubmission({ id: pendingId, status: event.type });
+      if (event.type === 'submitted') fetchLeaderboardAndRank(score);
+    });
+  }, [pendingId]);
   
   const handleNameSubmit = async (e: FormEvent) => {
       e.preventDefault();
@@ -124,24 +173,95 @@ const GameOverScreen: React.FC<GameOverScreenProps> = ({ score, history, onResta
       setIsSubmitting(true);
       setError(null);
       try {
-          await submitScore(playerName.trim(), score);
-          
-          // Update local storage with new high score
-          localStorage.setItem('localHighScore', String(score));
+          const result = await submitScore({
+            board: scope.board,
+            date: scope.date,
+            difficulty: scope.difficulty!,
+            name: playerName.trim(),
+            score,
+            run: runToken ? { token: runToken, history } : undefined,
+          });
           localStorage.setItem('localPlayerName', playerName.trim());
-          setLocalHighScore(score);
           setLocalPlayerName(playerName.trim());
 
-          setSubmissionComplete(true);
-          await fetchLeaderboardAndRank(score); // Refresh leaderboard and rank with the new score
+          setSubmission(result);
+          if (result.status === 'submitted') {
+            await fetchLeaderboardAndRank(score); // Refresh leaderboard and rank with the new score
+          }
       } catch (err) {
           console.error(err);
-          setError('점수 제출에 실패했습니다. 다시 시도해주세요.');
+          if (err instanceof ScoreRejectedError) {
+            // Submitting again would be refused too.
+            setSubmission({ id: null, status: 'rejected' });
+          }
+          setError(err instanceof Error ? err.message : '점수 제출에 실패했습니다. 다시 시도해주세요.');
       } finally {
           setIsSubmitting(false);
       }
   };
 
+  const handleCopyReplayLink = async () => {
+    const url = createReplayUrl({
+      mode,
+      difficulty,
+      startWord: history[0].previousWord,
+      playerNames: players.length > 1 ? players.map(player => player.name) : undefined,
+      history,
+      bridge: bridge ? {
+        targetWord: bridge.targetWord,
+        goalSimilarity: bridge.goalSimilarity,
+        similarityToTarget: bridge.startSimilarityToTarget,
+        elapsedSeconds: bridge.elapsedSeconds,
+      } : undefined,
+    });
+    try {
+      await navigator.clipboard.writeText(url);
+      setReplayLink({ url, copied: true });
+    } catch (err) {
+      console.error("Could not copy the replay link:", err);
+      setReplayLink({ url, copied: false });
+    }
+  };
+
+  const handleShareCard = async () => {
+    setIsSharingCard(true);
+    setShareOutcome(null);
+    try {
+      const image = await renderResultCard({ difficulty, score, history, finalSimilarity, targetWord: bridge?.targetWord });
+      setShareOutcome(await shareResultCard(image, `코꼬물에서 ${score.toLocaleString()}점을 기록했어요!`));
+    } catch (err) {
+      console.error("Could not share the result card:", err);
+      setShareOutcome('failed');
+    } finally {
+      setIsSharingCard(false);
+    }
+  };
+
+  // Opens or closes an attempt's explanation. Explanations are only fetched when asked for.
+  const handleExplain = async (index: number) => {
+    const current = explanations[index];
+    if (current?.status === 'loading') return;
+    if (current?.status === 'shown') {
+      setExplanations(({ [index]: _, ...rest }) => rest);
+      return;
+    }
+    setExplanations(prev => ({ ...prev, [index]: { status: 'loading' } }));
+    try {
+      const text = await explainAttempt(history, index, explainRequestsRef.current?.signal);
+      setExplanations(prev => ({ ...prev, [index]: { status: 'shown', text } }));
+    } catch (err) {
+      if (err instanceof RequestCancelledError) return;
+      setExplanations(prev => ({ ...prev, [index]: { status: 'failed', message: getErrorMessage(err, '설명을 가져오지 못했어요. 다시 눌러주세요.') } }));
+    }
+  };
+
+  const shareMessages: Record<Exclude<ShareOutcome, 'cancelled'> | 'failed', string> = {
+    shared: '결과를 공유했어요!',
+    copied: '결과 이미지를 클립보드에 복사했어요. 원하는 곳에 붙여넣으세요.',
+    downloaded: '결과 이미지를 내려받았어요.',
+    failed: '결과 이미지를 만들지 못했어요. 다시 시도해주세요.',
+  };
+
   const LeaderboardDisplay: React.FC = () => {
     if (isLoadingLeaderboard) {
       return <div className="flex items-center justify-center gap-2 text-indigo-200 text-xl sm:text-2xl"><Spinner /> 리더보드 로딩 중...</div>;
@@ -159,7 +279,7 @@ const GameOverScreen: React.FC<GameOverScreenProps> = ({ score, history, onResta
         {leaderboard.map((entry, index) => (
           <div key={index} className="flex items-center justify-between bg-black/20 p-2 sm:p-3 rounded-lg border border-white/10">
             <div className="flex items-center gap-2 sm:gap-3">
-              <CrownIcon className={`w-7 h-7 sm:w-8 sm:h-8 ${rankColors[index] || 'text-transparent'}`} />
+              <CrownIcon className={`w-7 h-7 sm:w-8 sm:h-8 ${rankColors[entry.rank - 1] || 'text-transparent'}`} />
               <span className="text-2xl sm:text-4xl font-bold text-white">{entry.name}</span>
             </div>
             <span className="text-2xl sm:text-4xl font-semibold text-fuchsia-300">{entry.score.toLocaleString()}점</span>
@@ -174,43 +294,103 @@ const GameOverScreen: React.FC<GameOverScreenProps> = ({ score, history, onResta
     <div className="flex flex-col items-center text-center animate-fade-in-scale text-2xl sm:text-3xl w-full">
       <TrophyIcon className="w-20 h-20 sm:w-24 sm:h-24 text-fuchsia-400 mb-4" />
       <h2 className="text-5xl sm:text-6xl font-bold text-white mb-2">게임 종료!</h2>
-      <p className="text-4xl sm:text-5xl text-indigo-200 mb-6">최종 점수: <span className="font-bold text-purple-300">{score.toLocaleString()}</span>점</p>
+      {bridge ? (
+        <div className="w-full bg-teal-900/30 rounded-lg border border-teal-500/50 p-4 mb-6">
+          <p className="text-3xl sm:text-4xl text-indigo-200">
+            {history[0]?.previousWord} → <span className="font-bold text-cyan-300">{bridge.targetWord}</span>
+          </p>
+          {bridge.completed ? (
+            <>
+              <p className="text-4xl sm:text-5xl font-bold text-white mt-2">🌉 다리 완성!</p>
+              <p className="text-2xl sm:text-3xl text-indigo-200 mt-1">{history.filter(h => h.success).length}걸음 · {bridge.elapsedSeconds}초</p>
+              <p className="text-4xl sm:text-5xl text-indigo-200 mt-2">최종 점수: <span className="font-bold text-purple-300">{score.toLocaleString()}</span>점</p>
+            </>
+          ) : (
+            <p className="text-2xl sm:text-3xl text-pink-300 mt-2">
+              다리를 완성하지 못했어요. 목적지와 {(Math.max(0, bridge.similarityToTarget) * 100).toFixed(1)}%까지 가까워졌어요. (목표 {(bridge.goalSimilarity * 100).toFixed(0)}%)
+            </p>
+          )}
+        </div>
+      ) : isRanked ? (
+        <p className="text-4xl sm:text-5xl text-indigo-200 mb-6">최종 점수: <span className="font-bold text-purple-300">{score.toLocaleString()}</span>점</p>
+      ) : (
+        <>
+          <p className="text-4xl sm:text-5xl text-indigo-200 mb-6">
+            {winnerIndex !== null ? <>우승: <span className="font-bold text-yellow-300">{players[winnerIndex].name}</span></> : '무승부'}
+          </p>
+          <div className="w-full bg-black/20 rounded-lg border border-white/10 p-4 mb-6">
+            <h3 className="text-3xl sm:text-4xl font-semibold text-fuchsia-300 mb-3">플레이어별 결과</h3>
+            <PlayerBreakdown players={players} winnerIndex={winnerIndex} history={history} />
+          </div>
+        </>
+      )}
       
-      <div className="w-full bg-black/20 rounded-lg border border-white/10 p-4 mb-6">
-        <h3 className="text-3xl sm:text-4xl font-semibold text-fuchsia-300 mb-3">🏆 명예의 전당 🏆</h3>
-        <LeaderboardDisplay />
-      </div>
+      {isRanked && (
+        <>
+          <div className="w-full bg-black/20 rounded-lg border border-white/10 p-4 mb-6">
+            <h3 className="text-3xl sm:text-4xl font-semibold text-fuchsia-300">{isDaily ? '☀️ 오늘의 도전 순위 ☀️' : isDistance ? '🔭 멀어지기 명예의 전당 🔭' : '🏆 명예의 전당 🏆'}</h3>
+            <p className="text-xl sm:text-2xl text-indigo-300 mb-3">{scope.difficulty}</p>
+            <LeaderboardDisplay />
+          </div>
 
-      <div className="w-full bg-indigo-900/30 rounded-lg border border-indigo-500 p-4 mb-6 text-center">
-        <h3 className="text-2xl sm:text-3xl font-bold text-indigo-200 mb-2">나의 최고 기록</h3>
-        {localHighScore > 0 ? (
-          <>
-            <p className="text-4xl sm:text-5xl font-bold text-white">
-              {localHighScore.toLocaleString()}점 
-              <span className="text-2xl sm:text-3xl text-slate-300 ml-2">({localPlayerName})</span>
-            </p>
-            {playerRank ? (
-              <p className="text-2xl sm:text-3xl text-yellow-400 mt-1">전체 {playerRank}위</p>
-            ) : (
-              <p className="text-xl sm:text-2xl text-slate-400 mt-1">현재 순위권 밖</p>
-            )}
-          </>
-        ) : (
-          <p className="text-xl sm:text-2xl text-slate-400">아직 기록이 없습니다.</p>
-        )}
-      </div>
+          {isDaily ? (
+            <div className="w-full bg-indigo-900/30 rounded-lg border border-indigo-500 p-4 mb-6 text-center">
+              <h3 className="text-2xl sm:text-3xl font-bold text-indigo-200 mb-2">오늘의 도전 ({dailyStatus.lastPlayedDate})</h3>
+              <p className="text-4xl sm:text-5xl font-bold text-white">🔥 {dailyStatus.streak}일 연속 도전</p>
+              <p className="text-xl sm:text-2xl text-slate-300 mt-1">최고 기록: {dailyStatus.bestStreak}일 연속</p>
+              {playerRank ? (
+                <p className="text-2xl sm:text-3xl text-yellow-400 mt-1">오늘 {playerRank}위 <span className="text-xl sm:text-2xl text-slate-300">/ {leaderboardTotal}개 기록</span></p>
+              ) : (
+                <p className="text-xl sm:text-2xl text-slate-400 mt-1">현재 순위권 밖</p>
+              )}
+              <p className="text-xl sm:text-2xl text-slate-400 mt-1">내일 새로운 단어로 다시 도전하세요!</p>
+            </div>
+          ) : (
+            <div className="w-full bg-indigo-900/30 rounded-lg border border-indigo-500 p-4 mb-6 text-center">
+              <h3 className="text-2xl sm:text-3xl font-bold text-indigo-200 mb-2">나의 최고 기록</h3>
+              {localHighScore > 0 ? (
+                <>
+                  <p className="text-4xl sm:text-5xl font-bold text-white">
+                    {localHighScore.toLocaleString()}점 
+                    <span className="text-2xl sm:text-3xl text-slate-300 ml-2">({localPlayerName})</span>
+                  </p>
+                  {playerRank ? (
+                    <p className="text-2xl sm:text-3xl text-yellow-400 mt-1">전체 {playerRank}위 <span className="text-xl sm:text-2xl text-slate-300">/ {leaderboardTotal}개 기록</span></p>
+                  ) : (
+                    <p className="text-xl sm:text-2xl text-slate-400 mt-1">현재 순위권 밖</p>
+                  )}
+                </>
+              ) : (
+                <p className="text-xl sm:text-2xl text-slate-400">아직 기록이 없습니다.</p>
+              )}
+            </div>
+          )}
+        </>
+      )}
 
       {isNewLocalHighScore && (
-        submissionComplete ? (
+        submission?.status === 'pending' ? (
+          <div className="w-full bg-amber-900/30 rounded-lg border border-amber-500 p-4 mb-6 animate-fade-in text-center flex flex-col items-center">
+            <Spinner />
+            <h3 className="text-3xl sm:text-4xl font-bold text-amber-300 my-2">제출 대기 중</h3>
+            <p className="text-xl sm:text-2xl text-indigo-200">연결이 돌아오면 자동으로 등록됩니다. 다시하기를 눌러도 기록은 보관됩니다.</p>
+          </div>
+        ) : submission?.status === 'rejected' ? (
+          <div className="w-full bg-pink-900/30 rounded-lg border border-pink-500 p-4 mb-6 animate-fade-in text-center flex flex-col items-center">
+            <XCircleIcon className="w-10 h-10 sm:w-12 sm:h-12 text-pink-400 mb-2"/>
+            <h3 className="text-3xl sm:text-4xl font-bold text-pink-300 mb-2">점수를 등록하지 못했습니다</h3>
+            <p className="text-xl sm:text-2xl text-indigo-200">{error ?? '리더보드가 이 기록을 받지 않았습니다.'}</p>
+          </div>
+        ) : submissionComplete ? (
           <div className="w-full bg-green-900/30 rounded-lg border border-green-500 p-4 mb-6 animate-fade-in text-center flex flex-col items-center">
             <CheckCircleIcon className="w-10 h-10 sm:w-12 sm:h-12 text-green-400 mb-2"/>
-            <h3 className="text-3xl sm:text-4xl font-bold text-green-300 mb-2">신기록 등록 완료!</h3>
-            <p className="text-xl sm:text-2xl text-indigo-200">명예의 전당에 오르신 것을 축하합니다!</p>
+            <h3 className="text-3xl sm:text-4xl font-bold text-green-300 mb-2">{isDaily ? '오늘의 기록 등록 완료!' : '신기록 등록 완료!'}</h3>
+            <p className="text-xl sm:text-2xl text-indigo-200">{isDaily ? '오늘의 도전 순위에 등록되었습니다!' : '명예의 전당에 오르신 것을 축하합니다!'}</p>
           </div>
         ) : (
           <div className="w-full bg-fuchsia-900/30 rounded-lg border border-fuchsia-500 p-4 mb-6 animate-fade-in">
-              <h3 className="text-3xl sm:text-4xl font-bold text-fuchsia-300 mb-3">👑 신기록 달성! 👑</h3>
-              <p className="text-xl sm:text-2xl text-indigo-200 mb-4">새로운 최고 기록입니다! 명예의 전당에 이름을 남겨주세요.</p>
+              <h3 className="text-3xl sm:text-4xl font-bold text-fuchsia-300 mb-3">{isDaily ? '☀️ 오늘의 도전 완료! ☀️' : '👑 신기록 달성! 👑'}</h3>
+              <p className="text-xl sm:text-2xl text-indigo-200 mb-4">{isDaily ? '오늘의 도전 순위에 이름을 남겨주세요.' : '새로운 최고 기록입니다! 명예의 전당에 이름을 남겨주세요.'}</p>
               <form onSubmit={handleNameSubmit} className="flex flex-col sm:flex-row gap-3">
                   <input
                       ref={nameInputRef}
@@ -236,6 +416,15 @@ const GameOverScreen: React.FC<GameOverScreenProps> = ({ score, history, onResta
         )
       )}
 
+      {onRestartInRoom && (
+        <button
+          onClick={onRestartInRoom}
+          className="w-full px-8 py-4 text-3xl sm:text-4xl font-bold text-white bg-fuchsia-600 rounded-lg shadow-md hover:bg-fuchsia-500 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-indigo-950 focus:ring-fuchsia-400 transition-transform transform hover:scale-105"
+        >
+          이 방에서 다시하기
+        </button>
+      )}
+
       {(!isNewLocalHighScore || submissionComplete) && (
         <button
           onClick={onRestart}
@@ -245,31 +434,93 @@ const GameOverScreen: React.FC<GameOverScreenProps> = ({ score, history, onResta
         </button>
       )}
 
+      {history.length > 0 && (
+        <div className="w-full mt-4 flex flex-col items-center gap-2">
+          <button
+            onClick={handleShareCard}
+            disabled={isSharingCard || isLoadingSimilarity}
+            className="w-full px-8 py-3 text-2xl sm:text-3xl font-bold text-white bg-fuchsia-600 rounded-lg shadow-md hover:bg-fuchsia-500 disabled:bg-indigo-900/50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+          >
+            {isSharingCard ? <Spinner /> : '📤 결과 공유'}
+          </button>
+          {shareOutcome && shareOutcome !== 'cancelled' && (
+            <p className={`text-xl sm:text-2xl ${shareOutcome === 'failed' ? 'text-pink-400' : 'text-green-300'}`}>{shareMessages[shareOutcome]}</p>
+          )}
+          <button onClick={handleCopyReplayLink} className="text-xl sm:text-2xl text-cyan-300 underline hover:text-white">
+            🔗 리플레이 링크 복사
+          </button>
+          {replayLink && (replayLink.copied ? (
+            <p className="text-xl sm:text-2xl text-green-300">링크를 복사했어요! 친구에게 보내 게임을 다시 보여주세요.</p>
+          ) : (
+            <input
+              type="text"
+              readOnly
+              value={replayLink.url}
+              onFocus={(e) => e.target.select()}
+              className="w-full bg-black/20 border border-white/20 rounded-lg py-2 px-3 text-lg text-white"
+              aria-label="리플레이 링크"
+            />
+          ))}
+        </div>
+      )}
+
       <div className="w-full bg-black/20 rounded-lg border border-white/10 p-4 my-6">
         <h3 className="text-3xl sm:text-4xl font-semibold text-fuchsia-300 mb-3">게임 기록</h3>
         <ul className="space-y-2 text-left max-h-48 overflow-y-auto pr-2 text-xl sm:text-2xl">
-          {history.map((attempt, index) => (
-            <li key={index} className={`flex items-center justify-between p-2 rounded ${attempt.success ? 'bg-purple-500/20' : 'bg-pink-500/20'}`}>
-              <div className="flex items-center gap-2">
-                {attempt.success ? <CheckCircleIcon className="w-6 h-6 text-purple-400" /> : <XCircleIcon className="w-6 h-6 text-pink-400" />}
-                <span className="break-all">{attempt.previousWord} → {attempt.newWord}</span>
-              </div>
-              <div className="flex items-baseline gap-2 text-right flex-shrink-0 ml-2">
-                  <span className={`font-semibold ${attempt.success ? 'text-purple-300' : 'text-pink-300'}`}>
-                    {(Math.max(0, attempt.similarity) * 100).toFixed(2)}%
-                    <span className="text-indigo-300 text-lg sm:text-xl font-normal"> / {(attempt.requiredThreshold * 100).toFixed(2)}%</span>
-                  </span>
-                  {attempt.points !== 0 && (
-                    <span className={`text-lg sm:text-xl font-bold ${attempt.success ? 'text-fuchsia-300' : 'text-red-400'}`}>
-                      ({attempt.points > 0 ? '+' : ''}{attempt.points.toLocaleString()})
+          {history.map((attempt, index) => {
+            const explanation = explanations[index];
+            return (
+              <li key={index} className={`p-2 rounded ${attempt.success ? 'bg-purple-500/20' : 'bg-pink-500/20'}`}>
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center gap-2">
+                    {attempt.success ? <CheckCircleIcon className="w-6 h-6 text-purple-400" /> : <XCircleIcon className="w-6 h-6 text-pink-400" />}
+                    <span className="break-all">
+                      {attempt.author && <span className="text-indigo-300">[{attempt.author}] </span>}
+                      {attempt.previousWord} → {attempt.newWord}
+                      {!!attempt.hintsUsed && <span className="text-amber-300" title={`힌트 ${attempt.hintsUsed}회 사용`}> 💡{attempt.hintsUsed > 1 ? `×${attempt.hintsUsed}` : ''}</span>}
+                      {attempt.reason && <span className="block text-lg sm:text-xl text-indigo-300">{attempt.reason}</span>}
                     </span>
-                  )}
-              </div>
-            </li>
-          ))}
+                  </div>
+                  <div className="flex items-baseline gap-2 text-right flex-shrink-0 ml-2">
+                      <span className={`font-semibold ${attempt.success ? 'text-purple-300' : 'text-pink-300'}`}>
+                        {(Math.max(0, attempt.similarity) * 100).toFixed(2)}%
+                        <span className="text-indigo-300 text-lg sm:text-xl font-normal"> / {isDistance ? '≤' : ''}{(attempt.requiredThreshold * 100).toFixed(2)}%</span>
+                      </span>
+                      {attempt.points !== 0 && (
+                        <span className={`text-lg sm:text-xl font-bold ${attempt.success ? 'text-fuchsia-300' : 'text-red-400'}`}>
+                          ({attempt.points > 0 ? '+' : ''}{attempt.points.toLocaleString()})
+                        </span>
+                      )}
+                      {isExplainable(attempt) && (
+                        <button
+                          onClick={() => handleExplain(index)}
+                          className="text-lg sm:text-xl text-cyan-300 underline hover:text-white"
+                          aria-expanded={explanation?.status === 'shown'}
+                          title="이 유사도가 나온 이유 보기"
+                        >
+                          왜?
+                        </button>
+                      )}
+                  </div>
+                </div>
+                {explanation?.status === 'loading' && (
+                  <p className="flex items-center gap-2 mt-1 text-lg sm:text-xl text-indigo-200"><Spinner /> 설명을 가져오는 중...</p>
+                )}
+                {explanation?.status === 'shown' && <p className="mt-1 text-lg sm:text-xl text-cyan-100">💬 {explanation.text}</p>}
+                {explanation?.status === 'failed' && <p className="mt-1 text-lg sm:text-xl text-pink-300">{explanation.message}</p>}
+              </li>
+            );
+          })}
         </ul>
       </div>
 
+      {history.length > 0 && (
+        <div className="w-full bg-black/20 rounded-lg border border-white/10 p-4 mb-6">
+          <h3 className="text-3xl sm:text-4xl font-semibold text-fuchsia-300 mb-2">🗺️ 의미 지도</h3>
+          <SemanticMap history={history} />
+        </div>
+      )}
+
       <div className="w-full bg-black/20 rounded-lg border border-white/10 p-4 mb-6">
         <h3 className="text-3xl sm:text-4xl font-semibold text-fuchsia-300 mb-2">종합 유사도</h3>
         {isLoadingSimilarity ? (
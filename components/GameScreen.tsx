@@ -3,6 +3,10 @@ import React, { useState, FormEvent } from 'react';
 import Spinner from './Spinner';
 import { HeartIcon } from './icons';
 import { playClickSound } from '../services/soundService';
+import type { GameRules } from '../types';
+import type { BridgeState, PlayerState } from '../engine/gameEngine';
+import type { WordCandidate } from '../services/wordCandidates';
+import { MAX_HINT_LEVEL, maskWord } from '../services/hintService';
 
 interface GameScreenProps {
   currentWord: string;
@@ -11,8 +15,25 @@ interface GameScreenProps {
   currentThreshold: number;
   lives: number;
   timeLeft: number;
-  onSubmit: (word: string) => void;
+  rules: GameRules;
+  players: PlayerState[];
+  currentPlayerIndex: number;
+  /** The puzzle in bridge mode, shown as a target and a progress meter. */
+  bridge?: BridgeState | null;
+  /** Submits a word. The word form is hidden when omitted, e.g. while watching a replay. */
+  onSubmit?: (word: string) => void;
+  /** Takes the next hint. The hint button is hidden when omitted. */
+  onHint?: () => void;
+  /** Hints taken during this turn. */
+  hintLevel: number;
+  /** Words clearing the threshold, once a hint has been requested this turn. */
+  hintCandidates: WordCandidate[] | null;
+  isHintLoading: boolean;
   isLoading: boolean;
+  /** Whether a request is waiting to be retried. The timer is frozen meanwhile. */
+  isRetrying?: boolean;
+  /** False while another player's turn is played on a different device. */
+  isMyTurn?: boolean;
   error: string | null;
 }
 
@@ -23,32 +44,44 @@ const GameScreen: React.FC<GameScreenProps> = ({
   currentThreshold,
   lives,
   timeLeft,
+  rules,
+  players,
+  currentPlayerIndex,
+  bridge,
   onSubmit,
+  onHint,
+  hintLevel,
+  hintCandidates,
+  isHintLoading,
   isLoading,
+  isRetrying = false,
+  isMyTurn = true,
   error,
 }) => {
   const [inputValue, setInputValue] = useState('');
 
   const handleSubmit = (e: FormEvent) => {
     e.preventDefault();
-    if (inputValue.trim() && !isLoading) {
+    if (onSubmit && inputValue.trim() && !isLoading && isMyTurn) {
       playClickSound();
       onSubmit(inputValue.trim());
       setInputValue('');
     }
   };
 
-  const timerPercentage = (timeLeft / 30) * 100;
+  const isMultiplayer = players.length > 1;
+  const timerPercentage = (timeLeft / rules.timerSeconds) * 100;
+  const bridgeProgress = bridge ? Math.min(100, Math.max(0, bridge.similarityToTarget / bridge.goalSimilarity) * 100) : 0;
   const timerColor = timeLeft > 10 ? 'bg-green-500' : timeLeft > 5 ? 'bg-yellow-500' : 'bg-red-500';
 
   return (
     <div className="flex flex-col items-center space-y-4 sm:space-y-6 animate-fade-in text-2xl sm:text-3xl">
       <div className="w-full flex flex-col sm:flex-row justify-between items-center sm:items-baseline gap-1 sm:gap-2 text-indigo-200">
-        <p className="whitespace-nowrap">난이도: <span className="font-bold text-fuchsia-400">{difficultyName} ({(currentThreshold * 100).toFixed(2)}%)</span></p>
+        <p className="whitespace-nowrap">난이도: <span className="font-bold text-fuchsia-400">{difficultyName} ({rules.direction === 'distant' ? '≤' : ''}{(currentThreshold * 100).toFixed(2)}%)</span></p>
         <div className="flex items-center gap-4">
             <div className="flex items-center gap-1.5" aria-label={`남은 기회 ${lives}개`}>
                 <span className="font-bold text-2xl sm:text-3xl">기회:</span>
-                {Array.from({ length: 3 }).map((_, i) => (
+                {Array.from({ length: rules.lives }).map((_, i) => (
                     <HeartIcon key={i} className={`w-8 h-8 transition-colors ${i < lives ? 'text-red-500' : 'text-slate-600'}`} />
                 ))}
             </div>
@@ -56,6 +89,24 @@ const GameScreen: React.FC<GameScreenProps> = ({
         </div>
       </div>
 
+      {isMultiplayer && (
+        <div className="w-full space-y-2">
+          <p className="text-center text-3xl sm:text-4xl font-bold text-white">🎮 <span className="text-fuchsia-300">{players[currentPlayerIndex].name}</span> 님의 차례</p>
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+            {players.map((player, i) => (
+              <div
+                key={i}
+                className={`p-2 rounded-lg border text-center text-xl sm:text-2xl ${i === currentPlayerIndex ? 'border-fuchsia-400 bg-fuchsia-500/20' : 'border-white/10 bg-black/20'} ${player.eliminated ? 'opacity-40 line-through' : ''}`}
+              >
+                <p className="font-bold text-white truncate">{player.name}</p>
+                <p className="text-purple-300">{player.score.toLocaleString()}점</p>
+                <p className="text-red-400" aria-label={`남은 기회 ${player.lives}개`}>{'♥'.repeat(Math.max(0, player.lives))}</p>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       <div className="w-full text-center p-4 sm:p-6 bg-black/20 rounded-lg border border-white/10">
         <div className="mb-4">
             <div className="flex justify-between items-center text-indigo-200 mb-1">
@@ -68,33 +119,81 @@ const GameScreen: React.FC<GameScreenProps> = ({
                     style={{ width: `${timerPercentage}%` }}
                     aria-valuenow={timeLeft}
                     aria-valuemin={0}
-                    aria-valuemax={30}
+                    aria-valuemax={rules.timerSeconds}
                     role="progressbar"
                     aria-label="남은 시간 표시줄"
                 ></div>
             </div>
+            {isRetrying && (
+              <p className="text-amber-300 text-xl sm:text-2xl mt-1">📡 연결이 불안정해 다시 시도하는 중이에요. 그동안 시간은 멈춰 있어요.</p>
+            )}
         </div>
         <p className="text-indigo-300 text-2xl sm:text-3xl mb-1 sm:mb-2">제시 단어</p>
         <p className="text-6xl sm:text-8xl font-bold tracking-wider text-white">{currentWord}</p>
+        {bridge && (
+          <div className="mt-4 pt-4 border-t border-white/10">
+            <p className="text-indigo-300 text-2xl sm:text-3xl">🌉 목적지: <span className="font-bold text-cyan-300">{bridge.targetWord}</span></p>
+            <div className="flex justify-between items-center text-indigo-200 text-xl sm:text-2xl mt-2 mb-1">
+              <span>목적지와의 유사도</span>
+              <span className="font-mono font-bold text-white">{(Math.max(0, bridge.similarityToTarget) * 100).toFixed(1)}% / {(bridge.goalSimilarity * 100).toFixed(0)}%</span>
+            </div>
+            <div className="w-full bg-slate-700 rounded-full h-2.5">
+              <div
+                className="bg-cyan-400 h-2.5 rounded-full transition-all duration-500"
+                style={{ width: `${bridgeProgress}%` }}
+                aria-valuenow={Math.round(bridgeProgress)}
+                aria-valuemin={0}
+                aria-valuemax={100}
+                role="progressbar"
+                aria-label="목적지까지의 진행도"
+              ></div>
+            </div>
+            <p className="text-slate-400 text-lg sm:text-xl mt-1">{bridge.elapsedSeconds}초 경과 · 걸음이 적고 빠를수록 높은 점수!</p>
+          </div>
+        )}
       </div>
 
-      <form onSubmit={handleSubmit} className="w-full flex flex-col sm:flex-row gap-3">
-        <input
-          type="text"
-          value={inputValue}
-          onChange={(e) => setInputValue(e.target.value)}
-          placeholder="다음 단어를 입력하세요..."
-          disabled={isLoading}
-          className="flex-grow bg-black/20 border border-white/20 rounded-lg py-3 px-4 sm:py-4 sm:px-5 text-3xl sm:text-4xl text-white placeholder-slate-500 focus:ring-2 focus:ring-purple-500 focus:border-purple-500 transition"
-        />
-        <button
-          type="submit"
-          disabled={isLoading || !inputValue.trim()}
-          className="px-6 py-3 sm:px-8 sm:py-4 text-xl sm:text-2xl font-bold text-white bg-purple-600 rounded-lg shadow-md hover:bg-purple-500 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-indigo-950 focus:ring-purple-400 transition-all transform hover:scale-105 disabled:bg-indigo-900/50 disabled:cursor-not-allowed flex items-center justify-center gap-3 whitespace-nowrap"
-        >
-          {isLoading ? <Spinner /> : '제출'}
-        </button>
-      </form>
+      {onSubmit && (
+        <form onSubmit={handleSubmit} className="w-full flex flex-col sm:flex-row gap-3">
+          <input
+            type="text"
+            value={inputValue}
+            onChange={(e) => setInputValue(e.target.value)}
+            placeholder={isMyTurn ? "다음 단어를 입력하세요..." : "다른 플레이어의 차례입니다..."}
+            disabled={isLoading || !isMyTurn}
+            className="flex-grow bg-black/20 border border-white/20 rounded-lg py-3 px-4 sm:py-4 sm:px-5 text-3xl sm:text-4xl text-white placeholder-slate-500 focus:ring-2 focus:ring-purple-500 focus:border-purple-500 transition"
+          />
+          <button
+            type="submit"
+            disabled={isLoading || !isMyTurn || !inputValue.trim()}
+            className="px-6 py-3 sm:px-8 sm:py-4 text-xl sm:text-2xl font-bold text-white bg-purple-600 rounded-lg shadow-md hover:bg-purple-500 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-indigo-950 focus:ring-purple-400 transition-all transform hover:scale-105 disabled:bg-indigo-900/50 disabled:cursor-not-allowed flex items-center justify-center gap-3 whitespace-nowrap"
+          >
+            {isLoading ? <Spinner /> : '제출'}
+          </button>
+        </form>
+      )}
+
+      {onHint && isMyTurn && (
+        <div className="w-full flex flex-col items-center gap-2 text-xl sm:text-2xl">
+          {hintLevel > 0 && hintCandidates && hintCandidates.length > 0 && (
+            <div className="w-full p-3 bg-amber-900/20 rounded-lg border border-amber-500/40 text-amber-200 text-center space-y-1">
+              <p>💡 첫 글자: <span className="font-bold text-white tracking-widest">{maskWord(hintCandidates[0].word)}</span></p>
+              {hintLevel >= MAX_HINT_LEVEL && (
+                <p>💡 후보: {hintCandidates.map(candidate => `${candidate.word} (${(candidate.similarity * 100).toFixed(0)}%)`).join(', ')}</p>
+              )}
+            </div>
+          )}
+          <button
+            type="button"
+            onClick={() => { playClickSound(); onHint(); }}
+            disabled={isLoading || isHintLoading || hintLevel >= MAX_HINT_LEVEL}
+            className="flex items-center gap-2 text-amber-300 underline hover:text-white disabled:text-slate-500 disabled:no-underline disabled:cursor-not-allowed"
+          >
+            {isHintLoading && <Spinner />}
+            {hintLevel >= MAX_HINT_LEVEL ? '힌트를 모두 사용했어요' : `💡 힌트 보기 (-${rules.hintCost.toLocaleString()}점)`}
+          </button>
+        </div>
+      )}
       
       {error && <p className="text-pink-400 mt-2 text-xl sm:text-2xl">{error}</p>}
     </div>
@@ -0,0 +1,203 @@
+import React, { useEffect, useState } from 'react';
+import { PREDEFINED_DIFFICULTIES, DISTANCE_DIFFICULTIES } from '../engine/gameEngine';
+import { getLeaderboard, getLeaderboardRank, getLocalHighScoreKey, type LeaderboardBoard, type LeaderboardScope, type RankedEntry } from '../services/leaderboardService';
+import { getLeaderboardDifficultyKey, type LeaderboardWindow } from '../services/leaderboardRanking';
+import { DAILY_DIFFICULTY, getKstDateKey } from '../services/dailyChallengeService';
+import { getSavedPresets } from '../services/presetService';
+import { getPendingSubmissions, onOutboxEvent } from '../services/scoreOutbox';
+import Spinner from './Spinner';
+import { CrownIcon } from './icons';
+import { playClickSound } from '../services/soundService';
+
+interface LeaderboardScreenProps {
+  onBack: () => void;
+}
+
+const PAGE_SIZE = 10;
+
+const BOARDS: { id: LeaderboardBoard; label: string }[] = [
+  { id: 'classic', label: '🏆 일반' },
+  { id: 'distance', label: '🔭 멀어지기' },
+  { id: 'daily', label: '☀️ 오늘의 도전' },
+];
+
+const WINDOWS: { id: LeaderboardWindow; label: string }[] = [
+  { id: 'day', label: '오늘' },
+  { id: 'week', label: '이번 주' },
+  { id: 'all', label: '전체' },
+];
+
+/**
+ * Lists the difficulties that can be ranked on a board, including the player's saved custom presets.
+ */
+function getBoardDifficultyKeys(board: LeaderboardBoard): string[] {
+  if (board === 'daily') return [getLeaderboardDifficultyKey(DAILY_DIFFICULTY)];
+  const direction = board === 'distance' ? 'distant' : 'similar';
+  const difficulties = [
+    ...(board === 'distance' ? DISTANCE_DIFFICULTIES : PREDEFINED_DIFFICULTIES),
+    ...getSavedPresets().filter(preset => preset.rules.direction === direction),
+  ];
+  return [...new Set(difficulties.map(getLeaderboardDifficultyKey))];
+}
+
+const rankColors = ['text-yellow-400', 'text-slate-300', 'text-amber-600'];
+
+const LeaderboardScreen: React.FC<LeaderboardScreenProps> = ({ onBack }) => {
+  const [board, setBoard] = useState<LeaderboardBoard>('classic');
+  const [difficulty, setDifficulty] = useState<string>(() => getLeaderboardDifficultyKey(PREDEFINED_DIFFICULTIES[1]));
+  const [timeWindow, setTimeWindow] = useState<LeaderboardWindow>('all');
+  const [page, setPage] = useState<number>(0);
+  const [entries, setEntries] = useState<RankedEntry[]>([]);
+  const [total, setTotal] = useState<number>(0);
+  const [myBest, setMyBest] = useState<number>(0);
+  const [myRank, setMyRank] = useState<number | null>(null);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+  const [pendingCount, setPendingCount] = useState<number>(() => getPendingSubmissions().length);
+
+  useEffect(() => onOutboxEvent(() => setPendingCount(getPendingSubmissions().length)), []);
+
+  const difficultyKeys = getBoardDifficultyKeys(board);
+
+  useEffect(() => {
+    let isCurrent = true;
+    const scope: LeaderboardScope = {
+      board,
+      date: board === 'daily' ? getKstDateKey() : undefined,
+      difficulty: difficulty || undefined,
+      window: timeWindow,
+    };
+    // The local high score is kept per difficulty, so there is nothing to rank across all of them.
+    const best = difficulty ? parseInt(localStorage.getItem(getLocalHighScoreKey(scope)) || '0', 10) : 0;
+    setMyBest(best);
+    setIsLoading(true);
+    setError(null);
+    Promise.all([
+      getLeaderboard({ ...scope, offset: page * PAGE_SIZE, limit: PAGE_SIZE }),
+      getLeaderboardRank(scope, best),
+    ])
+      .then(([result, rank]) => {
+        if (!isCurrent) return;
+        setEntries(result.entries);
+        setTotal(result.total);
+        setMyRank(rank);
+      })
+      .catch(err => {
+        if (isCurrent) setError(err instanceof Error ? err.message : '순위를 불러오지 못했습니다.');
+      })
+      .finally(() => {
+        if (isCurrent) setIsLoading(false);
+      });
+    return () => { isCurrent = false; };
+  }, [board, difficulty, timeWindow, page]);
+
+  const selectBoard = (next: LeaderboardBoard) => {
+    playClickSound();
+    setBoard(next);
+    setDifficulty(next === 'daily' ? getLeaderboardDifficultyKey(DAILY_DIFFICULTY) : getBoardDifficultyKeys(next)[next === 'classic' ? 1 : 0]);
+    setPage(0);
+  };
+
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  return (
+    <div className="flex flex-col items-center space-y-4 sm:space-y-6 animate-fade-in text-2xl sm:text-3xl">
+      <h2 className="text-4xl sm:text-5xl font-bold text-fuchsia-300">🏆 순위표</h2>
+
+      <div className="grid grid-cols-3 gap-2 w-full">
+        {BOARDS.map(option => (
+          <button
+            key={option.id}
+            onClick={() => selectBoard(option.id)}
+            className={`py-2 rounded-lg border text-xl sm:text-2xl ${board === option.id ? 'bg-fuchsia-600 border-fuchsia-400 text-white' : 'bg-black/20 border-white/20 text-indigo-200'}`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      {board === 'daily' ? (
+        <p className="text-xl sm:text-2xl text-indigo-300">{getKstDateKey()} 오늘의 도전</p>
+      ) : (
+        <div className="flex flex-col sm:flex-row gap-2 w-full">
+          <select
+            value={difficulty}
+            onChange={(e) => { playClickSound(); setDifficulty(e.target.value); setPage(0); }}
+            className="flex-1 px-3 py-2 bg-black/30 border-2 border-purple-500/50 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-fuchsia-500"
+          >
+            {difficultyKeys.map(key => <option key={key} value={key}>{key}</option>)}
+            <option value="">모든 난이도</option>
+          </select>
+          <div className="grid grid-cols-3 gap-2 sm:w-1/2">
+            {WINDOWS.map(option => (
+              <button
+                key={option.id}
+                onClick={() => { playClickSound(); setTimeWindow(option.id); setPage(0); }}
+                className={`py-1 rounded-lg border text-xl sm:text-2xl ${timeWindow === option.id ? 'bg-fuchsia-600 border-fuchsia-400 text-white' : 'bg-black/20 border-white/20 text-indigo-200'}`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {myBest > 0 && (
+        <p className="text-xl sm:text-2xl text-slate-300">
+          내 최고 기록 <span className="text-yellow-400 font-bold">{myBest.toLocaleString()}</span>점
+          {myRank !== null && <> · <span className="text-yellow-400 font-bold">{myRank}위</span></>}
+        </p>
+      )}
+
+      {pendingCount > 0 && (
+        <p className="text-lg sm:text-xl text-amber-300">⏳ 제출 대기 중인 기록 {pendingCount}개 · 연결되면 자동으로 등록됩니다.</p>
+      )}
+
+      <div className="w-full space-y-2 min-h-[12rem]">
+        {isLoading ? (
+          <div className="flex justify-center items-center h-48"><Spinner /></div>
+        ) : error ? (
+          <p className="text-pink-400 text-center">{error}</p>
+        ) : entries.length === 0 ? (
+          <p className="text-slate-400 text-center">아직 기록이 없습니다.</p>
+        ) : (
+          entries.map((entry, index) => (
+            <div key={index} className="flex items-center justify-between bg-black/20 p-2 sm:p-3 rounded-lg border border-white/10">
+              <div className="flex items-center gap-2 sm:gap-3">
+                <CrownIcon className={`w-7 h-7 ${rankColors[entry.rank - 1] || 'text-transparent'}`} />
+                <span className="w-12 text-indigo-300">{entry.rank}위</span>
+                <span className="font-bold text-white">{entry.name}</span>
+                {!difficulty && entry.difficulty && <span className="text-lg sm:text-xl text-slate-400">{entry.difficulty}</span>}
+              </div>
+              <span className="font-bold text-yellow-400">{entry.score.toLocaleString()}</span>
+            </div>
+          ))
+        )}
+      </div>
+
+      <div className="flex items-center gap-4">
+        <button
+          onClick={() => { playClickSound(); setPage(page - 1); }}
+          disabled={isLoading || page === 0}
+          className="px-4 py-1 rounded-lg bg-indigo-600 text-white hover:bg-indigo-500 disabled:bg-indigo-900/50 disabled:cursor-not-allowed"
+        >
+          이전
+        </button>
+        <span className="text-indigo-200">{page + 1} / {pageCount} <span className="text-xl text-slate-400">({total}개 기록)</span></span>
+        <button
+          onClick={() => { playClickSound(); setPage(page + 1); }}
+          disabled={isLoading || page + 1 >= pageCount}
+          className="px-4 py-1 rounded-lg bg-indigo-600 text-white hover:bg-indigo-500 disabled:bg-indigo-900/50 disabled:cursor-not-allowed"
+        >
+          다음
+        </button>
+      </div>
+
+      <button onClick={() => { playClickSound(); onBack(); }} className="text-xl sm:text-2xl text-indigo-300 underline hover:text-white">
+        돌아가기
+      </button>
+    </div>
+  );
+};
+
+export default LeaderboardScreen;
@@ -0,0 +1,145 @@
+import React, { useState, FormEvent } from 'react';
+import type { Difficulty } from '../types';
+import type { RoomSnapshot } from '../server/protocol';
+import { PREDEFINED_DIFFICULTIES } from '../engine/gameEngine';
+import Spinner from './Spinner';
+import { CrownIcon } from './icons';
+import { playClickSound } from '../services/soundService';
+
+interface OnlineLobbyProps {
+  room: RoomSnapshot | null;
+  playerId: string | null;
+  isConnecting: boolean;
+  error: string | null;
+  onCreate: (name: string, difficulty: Difficulty) => void;
+  onJoin: (code: string, name: string) => void;
+  onStart: () => void;
+  onLeave: () => void;
+}
+
+const OnlineLobby: React.FC<OnlineLobbyProps> = ({ room, playerId, isConnecting, error, onCreate, onJoin, onStart, onLeave }) => {
+  const [name, setName] = useState<string>(localStorage.getItem('localPlayerName') || '');
+  const [code, setCode] = useState<string>('');
+  const [difficulty, setDifficulty] = useState<Difficulty>(PREDEFINED_DIFFICULTIES[1]);
+
+  const handleCreate = () => {
+    playClickSound();
+    if (name.trim()) onCreate(name.trim(), difficulty);
+  };
+
+  const handleJoin = (e: FormEvent) => {
+    e.preventDefault();
+    playClickSound();
+    if (name.trim() && code.trim()) onJoin(code.trim().toUpperCase(), name.trim());
+  };
+
+  if (room) {
+    const isHost = room.hostId === playerId;
+    return (
+      <div className="flex flex-col items-center space-y-4 sm:space-y-6 animate-fade-in text-2xl sm:text-3xl">
+        <p className="text-indigo-200">방 코드</p>
+        <p className="text-7xl sm:text-8xl font-bold tracking-[0.3em] text-white font-mono">{room.code}</p>
+        <p className="text-indigo-300 text-xl sm:text-2xl">친구에게 코드를 알려주세요. ({room.difficulty.name} · {Math.round(room.difficulty.threshold * 100)}%)</p>
+
+        <div className="w-full space-y-2">
+          {room.players.map(player => (
+            <div key={player.id} className="flex items-center gap-3 bg-black/20 p-2 sm:p-3 rounded-lg border border-white/10">
+              <CrownIcon className={`w-7 h-7 ${player.id === room.hostId ? 'text-yellow-400' : 'text-transparent'}`} />
+              <span className="font-bold text-white">{player.name}</span>
+              {player.id === playerId && <span className="text-fuchsia-300 text-xl">(나)</span>}
+            </div>
+          ))}
+        </div>
+
+        {isHost ? (
+          <button
+            onClick={() => { playClickSound(); onStart(); }}
+            disabled={room.players.length < 2}
+            className="w-full px-6 py-3 sm:py-4 text-3xl font-bold text-white bg-purple-600 rounded-lg shadow-md hover:bg-purple-500 disabled:bg-indigo-900/50 disabled:cursor-not-allowed"
+          >
+            {room.players.length < 2 ? '다른 플레이어를 기다리는 중...' : '게임 시작'}
+          </button>
+        ) : (
+          <p className="flex items-center gap-2 text-indigo-200"><Spinner /> 방장이 게임을 시작하기를 기다리는 중...</p>
+        )}
+
+        <button onClick={() => { playClickSound(); onLeave(); }} className="text-xl sm:text-2xl text-indigo-300 underline hover:text-white">
+          방 나가기
+        </button>
+        {error && <p className="text-pink-400 text-xl sm:text-2xl">{error}</p>}
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col items-center space-y-4 sm:space-y-6 animate-fade-in text-2xl sm:text-3xl">
+      <h2 className="text-4xl sm:text-5xl font-bold text-fuchsia-300">🌐 온라인 방</h2>
+
+      <input
+        type="text"
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        placeholder="내 이름 (최대 10자)"
+        maxLength={10}
+        disabled={isConnecting}
+        className="w-full bg-black/20 border border-white/20 rounded-lg py-3 px-4 text-3xl text-white placeholder-slate-500 focus:ring-2 focus:ring-fuchsia-500"
+        aria-label="플레이어 이름"
+      />
+
+      <div className="w-full bg-black/20 rounded-lg border border-white/10 p-4 space-y-3">
+        <h3 className="text-3xl font-semibold text-indigo-200">새 방 만들기</h3>
+        <div className="grid grid-cols-3 gap-2">
+          {PREDEFINED_DIFFICULTIES.map(level => (
+            <button
+              key={level.name}
+              onClick={() => { playClickSound(); setDifficulty(level); }}
+              disabled={isConnecting}
+              className={`py-2 rounded-lg border text-2xl ${difficulty.name === level.name ? 'bg-fuchsia-600 border-fuchsia-400 text-white' : 'bg-black/20 border-white/20 text-indigo-200'}`}
+            >
+              {level.name}
+            </button>
+          ))}
+        </div>
+        <button
+          onClick={handleCreate}
+          disabled={isConnecting || !name.trim()}
+          className="w-full px-6 py-3 text-3xl font-bold text-white bg-purple-600 rounded-lg shadow-md hover:bg-purple-500 disabled:bg-indigo-900/50 disabled:cursor-not-allowed"
+        >
+          방 만들기
+        </button>
+      </div>
+
+      <form onSubmit={handleJoin} className="w-full bg-black/20 rounded-lg border border-white/10 p-4 space-y-3">
+        <h3 className="text-3xl font-semibold text-indigo-200">코드로 참가하기</h3>
+        <div className="flex flex-col sm:flex-row gap-3">
+          <input
+            type="text"
+            value={code}
+            onChange={(e) => setCode(e.target.value.toUpperCase())}
+            placeholder="방 코드"
+            maxLength={4}
+            disabled={isConnecting}
+            className="flex-grow bg-black/20 border border-white/20 rounded-lg py-3 px-4 text-3xl font-mono tracking-widest text-white placeholder-slate-500 focus:ring-2 focus:ring-fuchsia-500"
+            aria-label="방 코드"
+          />
+          <button
+            type="submit"
+            disabled={isConnecting || !name.trim() || !code.trim()}
+            className="px-6 py-3 text-3xl font-bold text-white bg-fuchsia-600 rounded-lg shadow-md hover:bg-fuchsia-500 disabled:bg-indigo-900/50 disabled:cursor-not-allowed"
+          >
+            참가
+          </button>
+        </div>
+      </form>
+
+      {isConnecting && <p className="flex items-center gap-2 text-indigo-200"><Spinner /> 서버에 연결 중...</p>}
+      {error && <p className="text-pink-400 text-xl sm:text-2xl">{error}</p>}
+
+      <button onClick={() => { playClickSound(); onLeave(); }} className="text-xl sm:text-2xl text-indigo-300 underline hover:text-white">
+        돌아가기
+      </button>
+    </div>
+  );
+};
+
+export default OnlineLobby;
@@ -0,0 +1,44 @@
+import React from 'react';
+import type { GameAttempt } from '../types';
+import type { PlayerState } from '../engine/gameEngine';
+import { CrownIcon } from './icons';
+
+interface PlayerBreakdownProps {
+  players: PlayerState[];
+  winnerIndex: number | null;
+  history: GameAttempt[];
+}
+
+// Per-player summary of a shared chain in a multiplayer game
+const PlayerBreakdown: React.FC<PlayerBreakdownProps> = ({ players, winnerIndex, history }) => {
+  const rows = players.map((player, i) => {
+    const attempts = history.filter(attempt => attempt.author === player.name);
+    const successes = attempts.filter(attempt => attempt.success);
+    const bestSimilarity = successes.reduce((best, attempt) => Math.max(best, attempt.similarity), 0);
+    return { player, index: i, successes: successes.length, failures: attempts.length - successes.length, bestSimilarity };
+  });
+
+  return (
+    <div className="w-full space-y-2">
+      {rows.map(({ player, index, successes, failures, bestSimilarity }) => (
+        <div
+          key={index}
+          className={`flex items-center justify-between p-2 sm:p-3 rounded-lg border ${index === winnerIndex ? 'border-yellow-400 bg-yellow-500/10' : 'border-white/10 bg-black/20'}`}
+        >
+          <div className="flex items-center gap-2 sm:gap-3 text-left">
+            <CrownIcon className={`w-7 h-7 sm:w-8 sm:h-8 ${index === winnerIndex ? 'text-yellow-400' : 'text-transparent'}`} />
+            <div>
+              <p className="text-2xl sm:text-4xl font-bold text-white">{player.name}</p>
+              <p className="text-lg sm:text-xl text-indigo-300">
+                성공 {successes} · 실패 {failures} · 최고 {(Math.max(0, bestSimilarity) * 100).toFixed(2)}%
+              </p>
+            </div>
+          </div>
+          <span className="text-2xl sm:text-4xl font-semibold text-fuchsia-300">{player.score.toLocaleString()}점</span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default PlayerBreakdown;
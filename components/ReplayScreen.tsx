@@ -0,0 +1,140 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { getCurrentPlayer, type GameEngineState } from '../engine/gameEngine';
+import { replayStates } from '../engine/gameReplay';
+import { decodeReplay } from '../services/replayLinkService';
+import { playClickSound } from '../services/soundService';
+import GameScreen from './GameScreen';
+import { CheckCircleIcon, XCircleIcon } from './icons';
+
+interface ReplayScreenProps {
+  /** The value after #replay= in a shared link. */
+  encodedReplay: string;
+  onClose: () => void;
+}
+
+/** How long each step stays on screen while playing. */
+const STEP_INTERVAL_MS = 1500;
+
+/**
+ * Decodes a replay link and rebuilds every step with the engine. Nothing is recalculated, so no API calls are made.
+ */
+function loadReplayFrames(encodedReplay: string): { frames: GameEngineState[] } | { error: string } {
+  try {
+    const replay = decodeReplay(encodedReplay);
+    return { frames: replayStates(replay, replay.history) };
+  } catch (error) {
+    console.error("Could not load the replay:", error);
+    return { error: error instanceof Error && error.name !== 'ReplayError' ? error.message : '손상된 리플레이 링크입니다.' };
+  }
+}
+
+const controlClasses = 'px-4 py-2 text-xl sm:text-2xl font-bold text-white bg-indigo-700 rounded-lg hover:bg-indigo-600 disabled:bg-indigo-900/50 disabled:cursor-not-allowed';
+
+const ReplayScreen: React.FC<ReplayScreenProps> = ({ encodedReplay, onClose }) => {
+  const replay = useMemo(() => loadReplayFrames(encodedReplay), [encodedReplay]);
+  const [step, setStep] = useState<number>(0);
+  const [isPlaying, setIsPlaying] = useState<boolean>(true);
+
+  const lastStep = 'frames' in replay ? replay.frames.length - 1 : 0;
+
+  useEffect(() => {
+    if (!isPlaying) return;
+    if (step >= lastStep) {
+      setIsPlaying(false);
+      return;
+    }
+    const timeout = setTimeout(() => setStep(step + 1), STEP_INTERVAL_MS);
+    return () => clearTimeout(timeout);
+  }, [isPlaying, step, lastStep]);
+
+  const goTo = (next: number) => {
+    playClickSound();
+    setIsPlaying(false);
+    setStep(Math.min(lastStep, Math.max(0, next)));
+  };
+
+  const togglePlaying = () => {
+    playClickSound();
+    // Playing from the end starts over.
+    if (!isPlaying && step >= lastStep) setStep(0);
+    setIsPlaying(!isPlaying);
+  };
+
+  if ('error' in replay) {
+    return (
+      <div className="flex flex-col items-center text-center space-y-4 animate-fade-in text-2xl sm:text-3xl">
+        <h2 className="text-4xl sm:text-5xl font-bold text-pink-300">리플레이를 열 수 없어요</h2>
+        <p className="text-indigo-200">{replay.error}</p>
+        <button onClick={() => { playClickSound(); onClose(); }} className="text-xl sm:text-2xl text-indigo-300 underline hover:text-white">
+          게임으로 가기
+        </button>
+      </div>
+    );
+  }
+
+  const frame = replay.frames[step];
+  const attempt = step > 0 ? frame.history[step - 1] : null;
+  const isDistance = frame.difficulty!.rules.direction === 'distant';
+  const player = getCurrentPlayer(frame);
+
+  return (
+    <div className="flex flex-col items-center space-y-4 animate-fade-in text-2xl sm:text-3xl">
+      <h2 className="text-4xl sm:text-5xl font-bold text-white">🎬 리플레이</h2>
+
+      <div className={`w-full p-3 rounded-lg border text-center ${!attempt ? 'bg-black/20 border-white/10' : attempt.success ? 'bg-purple-500/20 border-purple-400/50' : 'bg-pink-500/20 border-pink-400/50'}`}>
+        {attempt ? (
+          <p className="flex items-center justify-center gap-2 flex-wrap">
+            {attempt.success ? <CheckCircleIcon className="w-7 h-7 text-purple-400" /> : <XCircleIcon className="w-7 h-7 text-pink-400" />}
+            <span className="text-indigo-300">{step}/{lastStep}</span>
+            {attempt.author && <span className="text-indigo-300">[{attempt.author}]</span>}
+            <span className="text-white">{attempt.previousWord} → <span className="font-bold">{attempt.newWord}</span></span>
+            <span className={attempt.success ? 'text-purple-300' : 'text-pink-300'}>
+              {(Math.max(0, attempt.similarity) * 100).toFixed(2)}% / {isDistance ? '≤' : ''}{(attempt.requiredThreshold * 100).toFixed(2)}%
+            </span>
+            {attempt.points !== 0 && (
+              <span className={`font-bold ${attempt.success ? 'text-fuchsia-300' : 'text-red-400'}`}>
+                {attempt.points > 0 ? '+' : ''}{attempt.points.toLocaleString()}
+              </span>
+            )}
+          </p>
+        ) : (
+          <p className="text-indigo-200">시작 단어: <span className="font-bold text-white">{frame.currentWord}</span></p>
+        )}
+        {frame.status === 'over' && <p className="text-fuchsia-300 font-bold mt-1">게임 종료!</p>}
+      </div>
+
+      <div className="w-full flex justify-center gap-2">
+        <button onClick={() => goTo(0)} disabled={step === 0} className={controlClasses} aria-label="처음으로">⏮</button>
+        <button onClick={() => goTo(step - 1)} disabled={step === 0} className={controlClasses} aria-label="이전 단계">◀</button>
+        <button onClick={togglePlaying} className={controlClasses} aria-label={isPlaying ? '일시정지' : '재생'}>{isPlaying ? '⏸' : '▶️'}</button>
+        <button onClick={() => goTo(step + 1)} disabled={step >= lastStep} className={controlClasses} aria-label="다음 단계">▶</button>
+      </div>
+
+      <div className="w-full">
+        <GameScreen
+          currentWord={frame.currentWord}
+          score={player.score}
+          difficultyName={frame.difficulty!.name}
+          currentThreshold={frame.currentThreshold}
+          lives={player.lives}
+          timeLeft={frame.difficulty!.rules.timerSeconds}
+          players={frame.players}
+          currentPlayerIndex={frame.currentPlayerIndex}
+          rules={frame.difficulty!.rules}
+          bridge={frame.bridge}
+          hintLevel={0}
+          hintCandidates={null}
+          isHintLoading={false}
+          isLoading={false}
+          error={null}
+        />
+      </div>
+
+      <button onClick={() => { playClickSound(); onClose(); }} className="text-xl sm:text-2xl text-indigo-300 underline hover:text-white">
+        나도 플레이하기
+      </button>
+    </div>
+  );
+};
+
+export default ReplayScreen;
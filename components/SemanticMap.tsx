@@ -0,0 +1,152 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { GameAttempt } from '../types';
+import { buildSemanticMap, type SemanticMap as SemanticMapData } from '../services/semanticMapService';
+import Spinner from './Spinner';
+
+interface SemanticMapProps {
+  history: GameAttempt[];
+}
+
+const SIZE = 600;
+const MARGIN = 70;
+const NODE_RADIUS = 10;
+
+// Colours are SVG attributes rather than Tailwind classes, so the exported file looks the same.
+const COLORS = {
+  background: '#1e1b4b',
+  start: '#22d3ee',
+  success: '#c084fc',
+  failure: '#f472b6',
+  edge: '#a5b4fc',
+  label: '#ffffff',
+};
+
+const percent = (value: number): string => `${(Math.max(0, value) * 100).toFixed(1)}%`;
+
+const SemanticMap: React.FC<SemanticMapProps> = ({ history }) => {
+  const [map, setMap] = useState<SemanticMapData | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [hovered, setHovered] = useState<number | null>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+
+  useEffect(() => {
+    let isCurrent = true;
+    setMap(null);
+    setError(null);
+    buildSemanticMap(history)
+      .then(result => { if (isCurrent) setMap(result); })
+      .catch(err => {
+        console.error("Could not build the meaning map:", err);
+        if (isCurrent) setError('의미 지도를 그리지 못했습니다.');
+      });
+    return () => { isCurrent = false; };
+  }, [history]);
+
+  if (error) return <p className="text-pink-400 text-xl sm:text-2xl">{error}</p>;
+  if (!map) {
+    return <div className="flex items-center justify-center gap-2 text-indigo-200 text-xl sm:text-2xl"><Spinner /> 지도를 그리는 중...</div>;
+  }
+  if (map.nodes.length < 2) return <p className="text-slate-400 text-xl sm:text-2xl">지도에 놓을 단어가 부족합니다.</p>;
+
+  const { nodes, similarities } = map;
+  const indexOf = new Map(nodes.map((node, i) => [node.word, i]));
+  const position = (i: number) => ({ x: MARGIN + nodes[i].x * (SIZE - MARGIN * 2), y: MARGIN + nodes[i].y * (SIZE - MARGIN * 2) });
+
+  // One edge per attempt, from the word it followed. Failed attempts branch off and the chain carries on from the same word.
+  const edges = nodes.flatMap((node, to) => {
+    const from = node.attempt ? indexOf.get(node.attempt.previousWord) : undefined;
+    return from === undefined ? [] : [{ from, to, success: node.success, similarity: node.attempt!.similarity }];
+  });
+
+  const handleExport = () => {
+    if (!svgRef.current) return;
+    const source = new XMLSerializer().serializeToString(svgRef.current);
+    const url = URL.createObjectURL(new Blob([source], { type: 'image/svg+xml' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'cokkomul-meaning-map.svg';
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  };
+
+  const hoveredNode = hovered !== null ? nodes[hovered] : null;
+
+  return (
+    <div className="w-full flex flex-col items-center gap-2">
+      <svg
+        ref={svgRef}
+        xmlns="http://www.w3.org/2000/svg"
+        viewBox={`0 0 ${SIZE} ${SIZE}`}
+        className="w-full h-auto rounded-lg"
+        fontFamily="Dongle, sans-serif"
+        role="img"
+        aria-label="단어 사슬의 의미 지도"
+      >
+        <defs>
+          <marker id="meaning-map-arrow" viewBox="0 0 10 10" refX={10} refY={5} markerWidth={6} markerHeight={6} orient="auto-start-reverse">
+            <path d="M0,0 L10,5 L0,10 z" fill={COLORS.edge} />
+          </marker>
+        </defs>
+        <rect width={SIZE} height={SIZE} fill={COLORS.background} />
+        {edges.map(({ from, to, success, similarity }) => {
+          const start = position(from);
+          const end = position(to);
+          const length = Math.hypot(end.x - start.x, end.y - start.y) || 1;
+          // Stop short of the node so the arrowhead stays visible.
+          const endX = end.x - ((end.x - start.x) / length) * (NODE_RADIUS + 2);
+          const endY = end.y - ((end.y - start.y) / length) * (NODE_RADIUS + 2);
+          const isHighlighted = hovered === from || hovered === to;
+          return (
+            <line
+              key={`${from}-${to}`}
+              x1={start.x}
+              y1={start.y}
+              x2={endX}
+              y2={endY}
+              stroke={COLORS.edge}
+              strokeWidth={isHighlighted ? 4 : 2.5}
+              strokeDasharray={success ? undefined : '6 6'}
+              opacity={success ? 0.9 : 0.35}
+              markerEnd="url(#meaning-map-arrow)"
+            >
+              <title>{`${nodes[from].word} → ${nodes[to].word}: ${percent(similarity)}`}</title>
+            </line>
+          );
+        })}
+        {nodes.map((node, i) => {
+          const { x, y } = position(i);
+          const color = i === 0 ? COLORS.start : node.success ? COLORS.success : COLORS.failure;
+          return (
+            <g
+              key={node.word}
+              opacity={node.success ? 1 : 0.4}
+              onMouseEnter={() => setHovered(i)}
+              onMouseLeave={() => setHovered(null)}
+              onClick={() => setHovered(hovered === i ? null : i)}
+              style={{ cursor: 'pointer' }}
+            >
+              <title>{`${node.word}${node.attempt ? ` · ${node.attempt.previousWord}와(과) ${percent(node.attempt.similarity)}` : ' · 시작 단어'} · 시작 단어와 ${percent(similarities[0][i])}`}</title>
+              <circle cx={x} cy={y} r={hovered === i ? NODE_RADIUS + 4 : NODE_RADIUS} fill={color} stroke={COLORS.label} strokeWidth={hovered === i ? 3 : 0} />
+              <text x={x} y={y - NODE_RADIUS - 8} fill={COLORS.label} fontSize={34} textAnchor="middle">{node.word}</text>
+            </g>
+          );
+        })}
+      </svg>
+
+      <p className="text-xl sm:text-2xl text-indigo-200 min-h-[2rem]">
+        {hoveredNode ? (
+          <>
+            <span className="font-bold text-white">{hoveredNode.word}</span>
+            {hoveredNode.attempt && <> · {hoveredNode.attempt.previousWord}와(과) {percent(hoveredNode.attempt.similarity)}{hoveredNode.success ? '' : ' (실패)'}</>}
+            {hovered !== 0 && <> · 시작 단어와 {percent(similarities[0][hovered!])}</>}
+          </>
+        ) : '단어에 마우스를 올리거나 눌러 유사도를 확인하세요. 흐린 점은 실패한 단어입니다.'}
+      </p>
+      <button onClick={handleExport} className="text-xl sm:text-2xl text-cyan-300 underline hover:text-white">
+        💾 SVG로 저장
+      </button>
+    </div>
+  );
+};
+
+export default SemanticMap;
@@ -0,0 +1,208 @@
+import React, { useMemo, useState } from 'react';
+import { computeGameStats, getAverageSimilarity, getChainLength, getGameRecords, type GameRecord, type GameStats } from '../services/gameStatsService';
+import { getLeaderboardDifficultyKey } from '../services/leaderboardRanking';
+import { playClickSound } from '../services/soundService';
+
+interface StatsScreenProps {
+  onBack: () => void;
+}
+
+interface ChartPoint {
+  label: string;
+  value: number;
+}
+
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 220;
+const CHART_PADDING = 32;
+
+const formatDate = (time: number): string => {
+  const date = new Date(time);
+  return `${date.getMonth() + 1}/${date.getDate()}`;
+};
+
+/** The difficulty with the most games, where the score trend starts. */
+const getMostPlayedDifficulty = (stats: GameStats): string =>
+  [...stats.byDifficulty].sort((a, b) => b.games - a.games)[0]?.difficulty ?? '';
+
+/** Records of the device's owner have no player; hot-seat records are kept under each player's name. */
+const belongsTo = (record: GameRecord, player: string): boolean => (record.player ?? '') === player;
+
+/**
+ * A line chart of values in play order, labelled with the first and last label.
+ */
+const LineChart: React.FC<{ points: ChartPoint[]; color: string; format: (value: number) => string; label: string }> = ({ points, color, format, label }) => {
+  if (points.length === 0) {
+    return <p className="text-xl sm:text-2xl text-slate-400">아직 기록이 없습니다.</p>;
+  }
+  const values = points.map(point => point.value);
+  const min = Math.min(0, ...values);
+  const max = Math.max(...values, min + 1);
+  const x = (i: number) => CHART_PADDING + (points.length === 1 ? (CHART_WIDTH - CHART_PADDING * 2) / 2 : (i / (points.length - 1)) * (CHART_WIDTH - CHART_PADDING * 2));
+  const y = (value: number) => CHART_HEIGHT - CHART_PADDING - ((value - min) / (max - min)) * (CHART_HEIGHT - CHART_PADDING * 2);
+  const path = points.map((point, i) => `${i === 0 ? 'M' : 'L'}${x(i).toFixed(1)},${y(point.value).toFixed(1)}`).join(' ');
+
+  return (
+    <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-auto" role="img" aria-label={label}>
+      <line x1={CHART_PADDING} y1={y(min)} x2={CHART_WIDTH - CHART_PADDING} y2={y(min)} stroke="#475569" strokeWidth={2} />
+      <text x={CHART_PADDING} y={y(max) - 8} fill="#a5b4fc" fontSize={22}>{format(max)}</text>
+      <path d={path} fill="none" stroke={color} strokeWidth={4} strokeLinejoin="round" />
+      {points.map((point, i) => (
+        <circle key={i} cx={x(i)} cy={y(point.value)} r={points.length > 40 ? 2 : 5} fill={color}>
+          <title>{`${point.label}: ${format(point.value)}`}</title>
+        </circle>
+      ))}
+      <text x={CHART_PADDING} y={CHART_HEIGHT - 6} fill="#a5b4fc" fontSize={22}>{points[0].label}</text>
+      <text x={CHART_WIDTH - CHART_PADDING} y={CHART_HEIGHT - 6} fill="#a5b4fc" fontSize={22} textAnchor="end">{points[points.length - 1].label}</text>
+    </svg>
+  );
+};
+
+/**
+ * Horizontal bars, one per row, scaled to the largest value.
+ */
+const BarChart: React.FC<{ rows: ChartPoint[]; color: string; format: (value: number) => string; label: string }> = ({ rows, color, format, label }) => {
+  const rowHeight = 40;
+  const labelWidth = 200;
+  const max = Math.max(1, ...rows.map(row => row.value));
+  return (
+    <svg viewBox={`0 0 ${CHART_WIDTH} ${rows.length * rowHeight}`} className="w-full h-auto" role="img" aria-label={label}>
+      {rows.map((row, i) => {
+        const width = Math.max(2, (Math.max(0, row.value) / max) * (CHART_WIDTH - labelWidth - 100));
+        return (
+          <g key={row.label} transform={`translate(0, ${i * rowHeight})`}>
+            <text x={labelWidth - 12} y={rowHeight / 2} fill="#ffffff" fontSize={26} textAnchor="end" dominantBaseline="middle">{row.label}</text>
+            <rect x={labelWidth} y={8} width={width} height={rowHeight - 16} rx={6} fill={color} />
+            <text x={labelWidth + width + 8} y={rowHeight / 2} fill="#c7d2fe" fontSize={24} dominantBaseline="middle">{format(row.value)}</text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+};
+
+const StatsScreen: React.FC<StatsScreenProps> = ({ onBack }) => {
+  const [allRecords] = useState(getGameRecords);
+  const hotSeatPlayers = useMemo(() => [...new Set(allRecords.flatMap(record => (record.player ? [record.player] : [])))], [allRecords]);
+  // An empty name stands for the owner of the device.
+  const [player, setPlayer] = useState<string>('');
+  const records = useMemo(() => allRecords.filter(record => belongsTo(record, player)), [allRecords, player]);
+  const stats = useMemo(() => computeGameStats(records), [records]);
+  // Scores from different difficulties aren't comparable, so the trend follows one difficulty at a time.
+  const [trendDifficulty, setTrendDifficulty] = useState<string>(() => getMostPlayedDifficulty(stats));
+
+  const handlePlayerChange = (next: string) => {
+    setPlayer(next);
+    setTrendDifficulty(getMostPlayedDifficulty(computeGameStats(allRecords.filter(record => belongsTo(record, next)))));
+  };
+
+  const trendRecords = records.filter(record => getLeaderboardDifficultyKey(record.difficulty) === trendDifficulty);
+  const scoreTrend = trendRecords.map(record => ({ label: formatDate(record.playedAt), value: record.score }));
+  const similarityTrend = records.flatMap(record => {
+    const average = getAverageSimilarity(record);
+    return average === null ? [] : [{ label: formatDate(record.playedAt), value: average * 100 }];
+  });
+  const chainTrend = records.map(record => ({ label: formatDate(record.playedAt), value: getChainLength(record) }));
+
+  const summary = [
+    { label: '플레이한 게임', value: `${stats.gamesPlayed.toLocaleString()}판` },
+    { label: '가장 긴 사슬', value: `${stats.longestChain}단어` },
+    { label: '평균 유사도', value: `${(stats.averageSimilarity * 100).toFixed(1)}%` },
+    { label: '시간 초과 비율', value: `${(stats.timeoutRate * 100).toFixed(1)}%` },
+  ];
+
+  return (
+    <div className="flex flex-col items-center space-y-4 sm:space-y-6 animate-fade-in text-2xl sm:text-3xl">
+      <h2 className="text-4xl sm:text-5xl font-bold text-fuchsia-300">📊 내 기록</h2>
+
+      {hotSeatPlayers.length > 0 && (
+        <select
+          value={player}
+          onChange={(e) => handlePlayerChange(e.target.value)}
+          className="bg-black/30 border border-white/20 rounded-lg py-1 px-3 text-xl sm:text-2xl text-white"
+          aria-label="기록을 볼 플레이어"
+        >
+          <option value="">나 (혼자 하기, AI 대결)</option>
+          {hotSeatPlayers.map(name => <option key={name} value={name}>{name} (같은 기기 대결)</option>)}
+        </select>
+      )}
+
+      {records.length === 0 ? (
+        <p className="text-indigo-200 text-center">아직 끝낸 게임이 없어요. 게임을 마치면 여기에 기록이 쌓입니다.</p>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 gap-2 w-full">
+            {summary.map(item => (
+              <div key={item.label} className="p-3 bg-black/20 rounded-lg border border-white/10 text-center">
+                <p className="text-xl sm:text-2xl text-indigo-300">{item.label}</p>
+                <p className="text-4xl sm:text-5xl font-bold text-white">{item.value}</p>
+              </div>
+            ))}
+          </div>
+
+          <div className="w-full bg-black/20 rounded-lg border border-white/10 p-4">
+            <h3 className="text-3xl sm:text-4xl font-semibold text-fuchsia-300 mb-2">난이도별 점수</h3>
+            <table className="w-full text-xl sm:text-2xl text-left">
+              <thead className="text-indigo-300">
+                <tr><th className="font-normal">난이도</th><th className="font-normal text-right">게임</th><th className="font-normal text-right">최고</th><th className="font-normal text-right">평균</th></tr>
+              </thead>
+              <tbody className="text-white">
+                {stats.byDifficulty.map(row => (
+                  <tr key={row.difficulty}>
+                    <td className="truncate">{row.difficulty}</td>
+                    <td className="text-right">{row.games}</td>
+                    <td className="text-right text-fuchsia-300">{row.best.toLocaleString()}</td>
+                    <td className="text-right">{row.average.toLocaleString()}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="w-full bg-black/20 rounded-lg border border-white/10 p-4">
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 mb-2">
+              <h3 className="text-3xl sm:text-4xl font-semibold text-fuchsia-300">점수 변화</h3>
+              <select
+                value={trendDifficulty}
+                onChange={(e) => setTrendDifficulty(e.target.value)}
+                className="bg-black/30 border border-white/20 rounded-lg py-1 px-3 text-xl sm:text-2xl text-white"
+                aria-label="점수 변화를 볼 난이도"
+              >
+                {stats.byDifficulty.map(row => <option key={row.difficulty} value={row.difficulty}>{row.difficulty}</option>)}
+              </select>
+            </div>
+            <LineChart points={scoreTrend} color="#e879f9" format={value => `${Math.round(value).toLocaleString()}점`} label="게임별 점수 변화" />
+          </div>
+
+          <div className="w-full bg-black/20 rounded-lg border border-white/10 p-4">
+            <h3 className="text-3xl sm:text-4xl font-semibold text-fuchsia-300 mb-2">게임별 평균 유사도</h3>
+            <LineChart points={similarityTrend} color="#22d3ee" format={value => `${value.toFixed(1)}%`} label="게임별 평균 유사도 변화" />
+          </div>
+
+          <div className="w-full bg-black/20 rounded-lg border border-white/10 p-4">
+            <h3 className="text-3xl sm:text-4xl font-semibold text-fuchsia-300 mb-2">게임별 사슬 길이</h3>
+            <LineChart points={chainTrend} color="#c084fc" format={value => `${Math.round(value)}단어`} label="게임별 사슬 길이 변화" />
+          </div>
+
+          {stats.mostUsedWords.length > 0 && (
+            <div className="w-full bg-black/20 rounded-lg border border-white/10 p-4">
+              <h3 className="text-3xl sm:text-4xl font-semibold text-fuchsia-300 mb-2">자주 쓴 단어</h3>
+              <BarChart
+                rows={stats.mostUsedWords.map(({ word, count }) => ({ label: word, value: count }))}
+                color="#8b5cf6"
+                format={value => `${value}회`}
+                label="자주 쓴 단어"
+              />
+            </div>
+          )}
+        </>
+      )}
+
+      <button onClick={() => { playClickSound(); onBack(); }} className="text-xl sm:text-2xl text-indigo-300 underline hover:text-white">
+        돌아가기
+      </button>
+    </div>
+  );
+};
+
+export default StatsScreen;
@@ -0,0 +1,20 @@
+// 시작 단어 후보로 쓰이는 흔한 한국어 명사 목록입니다.
+// 기존 Gemini 프롬프트의 카테고리(우주, 바다, 신화, 과학, 예술, 역사, 음식, 기술)를 따릅니다.
+export const STARTER_NOUNS: string[] = [
+  // 우주
+  '우주', '태양', '달', '별', '은하', '행성', '지구', '혜성', '로켓', '위성',
+  // 바다
+  '바다', '파도', '고래', '상어', '산호', '항구', '등대', '모래', '해변', '섬',
+  // 신화
+  '신화', '용', '천사', '요정', '전설', '영웅', '괴물', '마법', '신전', '거인',
+  // 과학
+  '과학', '실험', '원자', '세포', '자석', '화석', '에너지', '전기', '중력', '화학',
+  // 예술
+  '예술', '음악', '그림', '조각', '무용', '노래', '영화', '연극', '시인', '악기',
+  // 역사
+  '역사', '왕', '성벽', '전쟁', '문화재', '궁궐', '유물', '조선', '고려', '박물관',
+  // 음식
+  '음식', '김치', '사과', '빵', '라면', '떡', '커피', '우유', '비빔밥', '딸기',
+  // 기술
+  '기술', '컴퓨터', '로봇', '인터넷', '전화', '자동차', '비행기', '기차', '카메라', '반도체',
+];
@@ -0,0 +1,272 @@
+import { describe, expect, it } from 'vitest';
+import {
+  calculateBridgeScore,
+  DISTANCE_DIFFICULTIES,
+  gameReducer,
+  initialGameState,
+  PREDEFINED_DIFFICULTIES,
+  TIMEOUT_WORD,
+  type GameAction,
+  type GameEngineState,
+} from './gameEngine';
+
+const NORMAL = PREDEFINED_DIFFICULTIES[1];
+
+function start(overrides: Partial<Extract<GameAction, { type: 'start' }>> = {}): GameEngineState {
+  return gameReducer(initialGameState, { type: 'start', difficulty: NORMAL, startWord: '사과', ...overrides });
+}
+
+/** Submits a word and resolves it with the given similarity. */
+function play(state: GameEngineState, word: string, similarity: number, targetSimilarity?: number): GameEngineState {
+  const evaluating = gameReducer(state, { type: 'submitWord', word });
+  return gameReducer(evaluating, { type: 'similarityResolved', word, similarity, targetSimilarity });
+}
+
+function tickUntilTimeout(state: GameEngineState): GameEngineState {
+  const turnStarted = state.history.length;
+  while (state.history.length === turnStarted) {
+    state = gameReducer(state, { type: 'tick' });
+  }
+  return state;
+}
+
+describe('start', () => {
+  it('starts a solo game from the difficulty', () => {
+    const state = start();
+    expect(state.status).toBe('playing');
+    expect(state.currentWord).toBe('사과');
+    expect(state.currentThreshold).toBe(0.5);
+    expect(state.players).toEqual([{ name: '', score: 0, lives: 3, eliminated: false, isComputer: false }]);
+    expect(state.timeLeft).toBe(30);
+    expect(state.events).toEqual([{ type: 'gameStarted', startWord: '사과' }]);
+  });
+});
+
+describe('successful attempts', () => {
+  it('scores the margin over the threshold with the round bonus and multiplier', () => {
+    const state = play(start(), '배', 0.6);
+    // 0.1 over the threshold is 1000 base points, plus a 20% bonus for the first round.
+    expect(state.players[0].score).toBe(1200);
+    expect(state.history[0]).toMatchObject({ previousWord: '사과', newWord: '배', success: true, requiredThreshold: 0.5, points: 1200 });
+    expect(state.currentWord).toBe('배');
+    expect(state.events[0]).toMatchObject({ type: 'wordAccepted' });
+  });
+
+  it('raises the threshold by 0.01 after each success', () => {
+    let state = play(start(), '배', 0.6);
+    expect(state.currentThreshold).toBeCloseTo(0.51);
+    state = play(state, '귤', 0.7);
+    expect(state.currentThreshold).toBeCloseTo(0.52);
+  });
+
+  it('grows the round bonus with each success', () => {
+    const state = play(play(start(), '배', 0.6), '귤', 0.61);
+    // 0.1 over 0.51 is 1000 base points, plus 40% in the second round.
+    expect(state.history[1].points).toBe(1400);
+  });
+
+  it('applies the difficulty multiplier', () => {
+    const state = play(start({ difficulty: PREDEFINED_DIFFICULTIES[2] }), '배', 0.85);
+    expect(state.players[0].score).toBe(2400);
+  });
+
+  it('ignores a result for a word that is no longer being evaluated', () => {
+    const evaluating = gameReducer(start(), { type: 'submitWord', word: '배' });
+    const state = gameReducer(evaluating, { type: 'similarityResolved', word: '귤', similarity: 0.9 });
+    expect(state.status).toBe('evaluating');
+    expect(state.history).toEqual([]);
+  });
+});
+
+describe('failed attempts', () => {
+  it('deducts the 1000-point penalty and a life', () => {
+    let state = play(start(), '배', 0.6);
+    state = play(state, '돌', 0.2);
+    expect(state.players[0].score).toBe(200);
+    expect(state.players[0].lives).toBe(2);
+    expect(state.history[1]).toMatchObject({ newWord: '돌', success: false, points: -1000 });
+    expect(state.events[0]).toMatchObject({ type: 'wordFailed', livesLeft: 2 });
+    // The chain carries on from the last accepted word, at the same threshold.
+    expect(state.currentWord).toBe('배');
+    expect(state.currentThreshold).toBeCloseTo(0.51);
+  });
+
+  it('never takes the score below zero', () => {
+    const state = play(start(), '돌', 0.2);
+    expect(state.players[0].score).toBe(0);
+  });
+
+  it('restores every life after a success', () => {
+    let state = play(play(start(), '돌', 0.2), '바위', 0.1);
+    expect(state.players[0].lives).toBe(1);
+    state = play(state, '배', 0.6);
+    expect(state.players[0].lives).toBe(3);
+  });
+
+  it('keeps lives lost when the rules do not restore them', () => {
+    const difficulty = { ...NORMAL, rules: { ...NORMAL.rules, resetLivesOnSuccess: false } };
+    const state = play(play(start({ difficulty }), '돌', 0.2), '배', 0.6);
+    expect(state.players[0].lives).toBe(2);
+  });
+
+  it('ends the game when the last life is lost', () => {
+    let state = play(play(start(), '배', 0.6), '돌', 0.2);
+    state = play(state, '바위', 0.2);
+    state = play(state, '모래', 0.2);
+    expect(state.status).toBe('over');
+    expect(state.players[0]).toMatchObject({ lives: 0, eliminated: true, score: 0 });
+    expect(state.events).toContainEqual({ type: 'gameOver', score: 0, winnerIndex: null });
+  });
+});
+
+describe('timer', () => {
+  it('counts down once per tick', () => {
+    const state = gameReducer(start(), { type: 'tick' });
+    expect(state.timeLeft).toBe(29);
+  });
+
+  it('is frozen while a word is being evaluated', () => {
+    const evaluating = gameReducer(start(), { type: 'submitWord', word: '배' });
+    expect(gameReducer(evaluating, { type: 'tick' }).timeLeft).toBe(30);
+  });
+
+  it('times out as a failed attempt and restarts the clock', () => {
+    const state = tickUntilTimeout(play(start(), '배', 0.6));
+    expect(state.history[1]).toMatchObject({ previousWord: '배', newWord: TIMEOUT_WORD, similarity: 0, success: false, points: -1000 });
+    expect(state.players[0]).toMatchObject({ score: 200, lives: 2 });
+    expect(state.events[0]).toMatchObject({ type: 'timedOut', livesLeft: 2 });
+    expect(state.timeLeft).toBe(30);
+  });
+
+  it('treats a timeout action like the clock running out', () => {
+    const state = gameReducer(start(), { type: 'timeout' });
+    expect(state.history[0]).toMatchObject({ newWord: TIMEOUT_WORD, success: false });
+    expect(state.players[0].lives).toBe(2);
+  });
+});
+
+describe('duplicate words', () => {
+  it('refuses the start word', () => {
+    const state = gameReducer(start(), { type: 'submitWord', word: '사과' });
+    expect(state.status).toBe('playing');
+    expect(state.pendingWord).toBeNull();
+    expect(state.events).toEqual([{ type: 'duplicateWord', word: '사과' }]);
+  });
+
+  it('refuses a word already played, including failed ones, without costing a life', () => {
+    const state = gameReducer(play(start(), '돌', 0.2), { type: 'submitWord', word: '돌' });
+    expect(state.events).toEqual([{ type: 'duplicateWord', word: '돌' }]);
+    expect(state.players[0].lives).toBe(2);
+  });
+});
+
+describe('rejected and failed evaluations', () => {
+  it('returns to play without an attempt or a lost life', () => {
+    for (const action of [
+      { type: 'wordRejected', word: 'ㅋㅋㅋ', reason: '단어가 아닙니다.' },
+      { type: 'similarityFailed', word: 'ㅋㅋㅋ', message: '오류' },
+    ] as GameAction[]) {
+      const state = gameReducer(gameReducer(start(), { type: 'submitWord', word: 'ㅋㅋㅋ' }), action);
+      expect(state.status).toBe('playing');
+      expect(state.history).toEqual([]);
+      expect(state.players[0].lives).toBe(3);
+    }
+  });
+});
+
+describe('hints', () => {
+  it('costs points, which never go below zero', () => {
+    let state = play(start(), '배', 0.6);
+    state = gameReducer(state, { type: 'useHint' });
+    expect(state.players[0].score).toBe(900);
+    expect(state.events).toEqual([{ type: 'hintUsed', playerIndex: 0, hintNumber: 1, cost: 300 }]);
+    for (let i = 0; i < 4; i++) state = gameReducer(state, { type: 'useHint' });
+    expect(state.players[0].score).toBe(0);
+  });
+
+  it('are recorded on the attempt and reset for the next turn', () => {
+    let state = gameReducer(start(), { type: 'useHint' });
+    state = play(state, '배', 0.6);
+    expect(state.history[0].hintsUsed).toBe(1);
+    expect(state.hintsUsed).toBe(0);
+  });
+});
+
+describe('restart', () => {
+  it('returns to the initial state', () => {
+    const state = gameReducer(play(start(), '배', 0.6), { type: 'restart' });
+    expect(state).toEqual({ ...initialGameState, events: [{ type: 'gameRestarted' }] });
+  });
+});
+
+describe('distance mode', () => {
+  const difficulty = DISTANCE_DIFFICULTIES[1];
+
+  it('accepts words below the ceiling and lowers it by 0.01', () => {
+    const state = play(start({ difficulty }), '우주', 0.25);
+    expect(state.history[0]).toMatchObject({ success: true, points: 1200 });
+    expect(state.currentThreshold).toBeCloseTo(0.34);
+  });
+
+  it('fails words above the ceiling', () => {
+    const state = play(start({ difficulty }), '배', 0.4);
+    expect(state.history[0].success).toBe(false);
+  });
+
+  it('counts opposite meanings as unrelated, not as extra distance', () => {
+    const state = play(start({ difficulty }), '우주', -0.5);
+    // Scored as a similarity of 0: 0.35 under the ceiling.
+    expect(state.history[0].points).toBe(4200);
+  });
+});
+
+describe('bridge mode', () => {
+  const bridge = { targetWord: '바다', goalSimilarity: 0.7, similarityToTarget: 0.1 };
+
+  it('tracks progress without scoring each step', () => {
+    const state = play(start({ mode: 'bridge', bridge }), '과일', 0.6, 0.3);
+    expect(state.history[0]).toMatchObject({ success: true, points: 0, targetSimilarity: 0.3 });
+    expect(state.bridge).toMatchObject({ similarityToTarget: 0.3, startSimilarityToTarget: 0.1, completed: false });
+  });
+
+  it('counts the seconds spent on the puzzle', () => {
+    const state = gameReducer(gameReducer(start({ mode: 'bridge', bridge }), { type: 'tick' }), { type: 'tick' });
+    expect(state.bridge!.elapsedSeconds).toBe(2);
+  });
+
+  it('scores the finished bridge by steps and time', () => {
+    let state = start({ mode: 'bridge', bridge });
+    for (let i = 0; i < 5; i++) state = gameReducer(state, { type: 'tick' });
+    state = play(play(state, '과일', 0.6, 0.3), '해변', 0.6, 0.75);
+    expect(state.status).toBe('over');
+    expect(state.bridge!.completed).toBe(true);
+    expect(state.players[0].score).toBe(calculateBridgeScore(2, 5, NORMAL));
+    expect(state.events).toContainEqual({ type: 'bridgeCompleted', steps: 2, elapsedSeconds: 5, points: 10000 - 2 * 800 - 5 * 10 });
+  });
+
+  it('never scores a finished bridge below the minimum', () => {
+    expect(calculateBridgeScore(20, 600, NORMAL)).toBe(1000);
+  });
+});
+
+describe('multiplayer', () => {
+  it('passes the turn and ends when one player is left', () => {
+    let state = start({ playerNames: ['가', '나'] });
+    state = play(state, '배', 0.6);
+    expect(state.history[0].author).toBe('가');
+    expect(state.currentPlayerIndex).toBe(1);
+    expect(state.events).toContainEqual({ type: 'turnChanged', playerIndex: 1 });
+
+    // '나' times out on every turn while '가' keeps playing.
+    const words = ['귤', '감', '밤'];
+    for (const word of words) {
+      state = tickUntilTimeout(state);
+      if (state.status === 'over') break;
+      state = play(state, word, 0.9);
+    }
+    expect(state.status).toBe('over');
+    expect(state.players[1].eliminated).toBe(true);
+    expect(state.winnerIndex).toBe(0);
+    expect(state.events).toContainEqual({ type: 'playerEliminated', playerIndex: 1 });
+  });
+});
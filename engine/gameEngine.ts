@@ -0,0 +1,486 @@
+import type { Difficulty, GameAttempt, GameMode, GameRules, SimilarityDirection } from '../types';
+
+// 게임 규칙을 React, 사운드, 타이머와 분리한 순수 상태 기계입니다.
+// 유사도 계산 같은 비동기 작업은 호출하는 쪽이 수행하고, 그 결과를 액션으로 전달합니다.
+
+/** The house rules used by the built-in difficulties. */
+export const DEFAULT_GAME_RULES: GameRules = {
+  direction: 'similar',
+  lives: 3,
+  timerSeconds: 30,
+  thresholdStep: 0.01,
+  failurePenalty: 1000,
+  roundBonus: 0.2,
+  resetLivesOnSuccess: true,
+  hintCost: 300,
+};
+
+/** The built-in difficulties offered on the start screen. */
+export const PREDEFINED_DIFFICULTIES: Difficulty[] = [
+  { name: '쉬움', threshold: 0.25, multiplier: 0.25, rules: DEFAULT_GAME_RULES },
+  { name: '보통', threshold: 0.50, multiplier: 1.0, rules: DEFAULT_GAME_RULES },
+  { name: '어려움', threshold: 0.75, multiplier: 2.0, rules: DEFAULT_GAME_RULES },
+];
+
+/** The house rules of distance mode, where each word must stay below a falling ceiling. */
+export const DISTANCE_GAME_RULES: GameRules = { ...DEFAULT_GAME_RULES, direction: 'distant' };
+
+/** The built-in difficulties of distance mode. The threshold is the starting ceiling. */
+export const DISTANCE_DIFFICULTIES: Difficulty[] = [
+  { name: '멀리 쉬움', threshold: 0.50, multiplier: 0.25, rules: DISTANCE_GAME_RULES },
+  { name: '멀리 보통', threshold: 0.35, multiplier: 1.0, rules: DISTANCE_GAME_RULES },
+  { name: '멀리 어려움', threshold: 0.20, multiplier: 2.0, rules: DISTANCE_GAME_RULES },
+];
+
+/** Bridge mode scoring: a completed bridge starts from the base and pays for every step and second. */
+const BRIDGE_BASE_POINTS = 10000;
+const BRIDGE_STEP_COST = 800;
+const BRIDGE_SECOND_COST = 10;
+const BRIDGE_MIN_POINTS = 1000;
+
+/** The word recorded in history when a turn runs out of time. */
+export const TIMEOUT_WORD = '(시간 초과)';
+
+export type GameStatus = 'idle' | 'playing' | 'evaluating' | 'over';
+
+export interface PlayerState {
+  /** Empty for the single player of a solo game. */
+  name: string;
+  score: number;
+  lives: number;
+  /** Whether the player has run out of lives. */
+  eliminated: boolean;
+  /** Whether the computer plays this player's turns. */
+  isComputer: boolean;
+}
+
+/** A bridge puzzle: chain from the start word until a word is close enough to the target. */
+export interface BridgeState {
+  targetWord: string;
+  /** The similarity to the target that completes the bridge. */
+  goalSimilarity: number;
+  /** Similarity between the current word and the target. */
+  similarityToTarget: number;
+  /** Similarity between the start word and the target. */
+  startSimilarityToTarget: number;
+  /** Seconds spent on the puzzle, not counting evaluations. */
+  elapsedSeconds: number;
+  completed: boolean;
+}
+
+export interface GameEngineState {
+  status: GameStatus;
+  mode: GameMode;
+  difficulty: Difficulty | null;
+  currentWord: string;
+  currentThreshold: number;
+  /** Everyone taking turns on the same chain. A solo game has exactly one player. */
+  players: PlayerState[];
+  currentPlayerIndex: number;
+  /** The last player standing in a multiplayer game. */
+  winnerIndex: number | null;
+  timeLeft: number;
+  history: GameAttempt[];
+  /** The submitted word whose similarity is being calculated. */
+  pendingWord: string | null;
+  /** Hints taken by the current player during this turn. */
+  hintsUsed: number;
+  /** The puzzle being solved in bridge mode. */
+  bridge: BridgeState | null;
+  /** Events emitted by the most recent action. */
+  events: GameEvent[];
+}
+
+export type GameAction =
+  | {
+      type: 'start';
+      difficulty: Difficulty;
+      startWord: string;
+      mode?: GameMode;
+      playerNames?: string[];
+      computerPlayerIndex?: number;
+      bridge?: { targetWord: string; goalSimilarity: number; similarityToTarget: number };
+    }
+  | { type: 'submitWord'; word: string }
+  /**
+   * `targetSimilarity` is the word's similarity to the bridge target, required in bridge mode.
+   * `reason` is the provider's explanation of its verdict, when it gave one.
+   */
+  | { type: 'similarityResolved'; word: string; similarity: number; targetSimilarity?: number; reason?: string }
+  /** The word could not be scored and does not count as an attempt (e.g. not in the vocabulary). */
+  | { type: 'wordRejected'; word: string; reason: string }
+  | { type: 'similarityFailed'; word: string; message: string }
+  | { type: 'tick' }
+  | { type: 'timeout' }
+  /** The current player takes a hint and pays its cost in points. */
+  | { type: 'useHint' }
+  | { type: 'restart' }
+  /** Replaces the state with one from an authoritative source, such as an online room server. */
+  | { type: 'sync'; state: GameEngineState };
+
+export type GameEvent =
+  | { type: 'gameStarted'; startWord: string }
+  | { type: 'evaluationStarted'; word: string }
+  | { type: 'duplicateWord'; word: string }
+  | { type: 'wordRejected'; word: string; reason: string }
+  | { type: 'evaluationFailed'; word: string; message: string }
+  | { type: 'wordAccepted'; attempt: GameAttempt }
+  | { type: 'wordFailed'; attempt: GameAttempt; livesLeft: number }
+  | { type: 'timedOut'; attempt: GameAttempt; livesLeft: number }
+  | { type: 'turnChanged'; playerIndex: number }
+  | { type: 'hintUsed'; playerIndex: number; hintNumber: number; cost: number }
+  | { type: 'playerEliminated'; playerIndex: number }
+  | { type: 'bridgeCompleted'; steps: number; elapsedSeconds: number; points: number }
+  /** `score` is the score of the winner, or of the single player in a solo game. */
+  | { type: 'gameOver'; score: number; winnerIndex: number | null }
+  | { type: 'gameRestarted' };
+
+function createPlayer(name: string, rules: GameRules, isComputer = false): PlayerState {
+  return { name, score: 0, lives: rules.lives, eliminated: false, isComputer };
+}
+
+export const initialGameState: GameEngineState = {
+  status: 'idle',
+  mode: 'classic',
+  difficulty: null,
+  currentWord: '',
+  currentThreshold: 0,
+  players: [createPlayer('', DEFAULT_GAME_RULES)],
+  currentPlayerIndex: 0,
+  winnerIndex: null,
+  timeLeft: DEFAULT_GAME_RULES.timerSeconds,
+  history: [],
+  pendingWord: null,
+  hintsUsed: 0,
+  bridge: null,
+  events: [],
+};
+
+/**
+ * Returns how far an attempt cleared the threshold, or a negative value if it fell short.
+ * In distance mode, negative similarities count as 0 so that opposite meanings earn no extra points.
+ */
+export function getThresholdMargin(similarity: number, threshold: number, direction: SimilarityDirection): number {
+  return direction === 'distant' ? threshold - Math.max(0, similarity) : similarity - threshold;
+}
+
+/**
+ * Calculates the points for a successful attempt.
+ * @param similarity The measured similarity.
+ * @param threshold The threshold the attempt had to meet.
+ * @param roundNumber 1-based index of this success within the game.
+ * @param difficulty The difficulty supplying the multiplier and round bonus.
+ */
+export function calculatePoints(similarity: number, threshold: number, roundNumber: number, difficulty: Difficulty): number {
+  const basePoints = Math.round(getThresholdMargin(similarity, threshold, difficulty.rules.direction) * 10000);
+  const bonusPoints = Math.round(basePoints * (roundNumber * difficulty.rules.roundBonus));
+  return Math.round((basePoints + bonusPoints) * difficulty.multiplier);
+}
+
+/**
+ * Calculates the score for a completed bridge. Fewer steps and less time score higher.
+ * @param steps The number of accepted words it took to reach the target.
+ * @param elapsedSeconds The time spent on the puzzle.
+ * @param difficulty The difficulty supplying the multiplier.
+ */
+export function calculateBridgeScore(steps: number, elapsedSeconds: number, difficulty: Difficulty): number {
+  const points = BRIDGE_BASE_POINTS - steps * BRIDGE_STEP_COST - elapsedSeconds * BRIDGE_SECOND_COST;
+  return Math.round(Math.max(BRIDGE_MIN_POINTS, points) * difficulty.multiplier);
+}
+
+/**
+ * Returns the player whose turn it is.
+ */
+export function getCurrentPlayer(state: GameEngineState): PlayerState {
+  return state.players[state.currentPlayerIndex];
+}
+
+/**
+ * Returns every word already used in this game, including the start word.
+ */
+export function getUsedWords(state: GameEngineState): Set<string> {
+  const used = new Set(state.history.map(attempt => attempt.newWord));
+  used.add(state.history.length > 0 ? state.history[0].previousWord : state.currentWord);
+  return used;
+}
+
+/**
+ * Returns the state for an action that changed nothing, clearing the previous action's events.
+ */
+function unchanged(state: GameEngineState): GameEngineState {
+  return state.events.length === 0 ? state : { ...state, events: [] };
+}
+
+function updateCurrentPlayer(state: GameEngineState, update: (player: PlayerState) => PlayerState): PlayerState[] {
+  return state.players.map((player, i) => (i === state.currentPlayerIndex ? update(player) : player));
+}
+
+function makeAttempt(state: GameEngineState, newWord: string, similarity: number, success: boolean, points: number, reason?: string): GameAttempt {
+  const attempt: GameAttempt = {
+    previousWord: state.currentWord,
+    newWord,
+    similarity,
+    success,
+    requiredThreshold: state.currentThreshold,
+    points,
+  };
+  const { name } = getCurrentPlayer(state);
+  if (name) {
+    attempt.author = name;
+  }
+  if (state.hintsUsed > 0) {
+    attempt.hintsUsed = state.hintsUsed;
+  }
+  if (reason) {
+    attempt.reason = reason;
+  }
+  return attempt;
+}
+
+/**
+ * Ends the current turn: passes it to the next player still in the game, or ends the game
+ * when nobody is left (solo) or only one player remains (multiplayer).
+ */
+function finishTurn(state: GameEngineState, events: GameEvent[]): GameEngineState {
+  const { players } = state;
+  const isMultiplayer = players.length > 1;
+  const remaining = players.filter(player => !player.eliminated);
+
+  if (isMultiplayer ? remaining.length <= 1 : remaining.length === 0) {
+    const winnerIndex = isMultiplayer && remaining.length === 1 ? players.indexOf(remaining[0]) : null;
+    return {
+      ...state,
+      status: 'over',
+      winnerIndex,
+      pendingWord: null,
+      events: [...events, { type: 'gameOver', score: players[winnerIndex ?? 0].score, winnerIndex }],
+    };
+  }
+
+  let nextIndex = state.currentPlayerIndex;
+  if (isMultiplayer) {
+    do {
+      nextIndex = (nextIndex + 1) % players.length;
+    } while (players[nextIndex].eliminated);
+    events = [...events, { type: 'turnChanged', playerIndex: nextIndex }];
+  }
+
+  return {
+    ...state,
+    status: 'playing',
+    currentPlayerIndex: nextIndex,
+    timeLeft: state.difficulty!.rules.timerSeconds,
+    pendingWord: null,
+    hintsUsed: 0,
+    events,
+  };
+}
+
+/**
+ * Applies a failed attempt: the current player loses a life and is eliminated when none remain.
+ */
+function applyFailure(state: GameEngineState, newWord: string, similarity: number, eventType: 'wordFailed' | 'timedOut', reason?: string): GameEngineState {
+  const rules = state.difficulty!.rules;
+  const attempt = makeAttempt(state, newWord, similarity, false, -rules.failurePenalty, reason);
+  const players = updateCurrentPlayer(state, player => ({
+    ...player,
+    score: Math.max(0, player.score - rules.failurePenalty),
+    lives: player.lives - 1,
+    eliminated: player.lives - 1 <= 0,
+  }));
+  const player = players[state.currentPlayerIndex];
+
+  const events: GameEvent[] = [{ type: eventType, attempt, livesLeft: player.lives }];
+  if (player.eliminated && players.length > 1) {
+    events.push({ type: 'playerEliminated', playerIndex: state.currentPlayerIndex });
+  }
+
+  return finishTurn({ ...state, players, history: [...state.history, attempt] }, events);
+}
+
+/**
+ * Ends a bridge puzzle whose latest word reached the target, awarding the bridge score.
+ */
+function completeBridge(state: GameEngineState, events: GameEvent[]): GameEngineState {
+  const bridge = state.bridge!;
+  const steps = state.history.filter(h => h.success).length;
+  const points = calculateBridgeScore(steps, bridge.elapsedSeconds, state.difficulty!);
+  const players = updateCurrentPlayer(state, player => ({ ...player, score: player.score + points }));
+  return {
+    ...state,
+    status: 'over',
+    players,
+    pendingWord: null,
+    bridge: { ...bridge, completed: true },
+    events: [
+      ...events,
+      { type: 'bridgeCompleted', steps, elapsedSeconds: bridge.elapsedSeconds, points },
+      { type: 'gameOver', score: players[state.currentPlayerIndex].score, winnerIndex: null },
+    ],
+  };
+}
+
+function applySimilarity(state: GameEngineState, word: string, similarity: number, targetSimilarity?: number, reason?: string): GameEngineState {
+  const difficulty = state.difficulty!;
+  const { direction, thresholdStep } = difficulty.rules;
+  if (getThresholdMargin(similarity, state.currentThreshold, direction) < 0) {
+    return applyFailure(state, word, similarity, 'wordFailed', reason);
+  }
+
+  const roundNumber = state.history.filter(h => h.success).length + 1;
+  // Bridge mode only scores the finished bridge.
+  const points = state.bridge ? 0 : calculatePoints(similarity, state.currentThreshold, roundNumber, difficulty);
+  const attempt = makeAttempt(state, word, similarity, true, points, reason);
+  if (state.bridge && targetSimilarity !== undefined) {
+    attempt.targetSimilarity = targetSimilarity;
+  }
+  const players = updateCurrentPlayer(state, player => ({
+    ...player,
+    score: player.score + points,
+    lives: difficulty.rules.resetLivesOnSuccess ? difficulty.rules.lives : player.lives,
+  }));
+
+  const bridge = state.bridge && { ...state.bridge, similarityToTarget: targetSimilarity ?? state.bridge.similarityToTarget };
+  const next: GameEngineState = {
+    ...state,
+    currentWord: word,
+    currentThreshold: direction === 'distant'
+      ? Math.max(0, state.currentThreshold - thresholdStep)
+      : state.currentThreshold + thresholdStep,
+    players,
+    history: [...state.history, attempt],
+    bridge,
+  };
+  const events: GameEvent[] = [{ type: 'wordAccepted', attempt }];
+  if (bridge && bridge.similarityToTarget >= bridge.goalSimilarity) {
+    return completeBridge(next, events);
+  }
+  return finishTurn(next, events);
+}
+
+/**
+ * The game rules as a pure reducer.
+ */
+export function gameReducer(state: GameEngineState, action: GameAction): GameEngineState {
+  switch (action.type) {
+    case 'start':
+      return {
+        ...initialGameState,
+        status: 'playing',
+        mode: action.mode ?? 'classic',
+        difficulty: action.difficulty,
+        currentWord: action.startWord,
+        currentThreshold: action.difficulty.threshold,
+        players: (action.playerNames ?? ['']).map((name, i) => createPlayer(name, action.difficulty.rules, i === action.computerPlayerIndex)),
+        timeLeft: action.difficulty.rules.timerSeconds,
+        bridge: action.bridge
+          ? { ...action.bridge, startSimilarityToTarget: action.bridge.similarityToTarget, elapsedSeconds: 0, completed: false }
+          : null,
+        events: [{ type: 'gameStarted', startWord: action.startWord }],
+      };
+
+    case 'submitWord':
+      if (state.status !== 'playing') return unchanged(state);
+      if (getUsedWords(state).has(action.word)) {
+        return { ...state, events: [{ type: 'duplicateWord', word: action.word }] };
+      }
+      return {
+        ...state,
+        status: 'evaluating',
+        pendingWord: action.word,
+        events: [{ type: 'evaluationStarted', word: action.word }],
+      };
+
+    case 'similarityResolved':
+    case 'wordRejected':
+    case 'similarityFailed':
+      // Ignore results that arrive for a word that is no longer being evaluated (e.g. after a restart).
+      if (state.status !== 'evaluating' || state.pendingWord !== action.word) return unchanged(state);
+      if (action.type === 'similarityResolved') {
+        return applySimilarity(state, action.word, action.similarity, action.targetSimilarity, action.reason);
+      }
+      return {
+        ...state,
+        status: 'playing',
+        pendingWord: null,
+        events: [action.type === 'wordRejected'
+          ? { type: 'wordRejected', word: action.word, reason: action.reason }
+          : { type: 'evaluationFailed', word: action.word, message: action.message }],
+      };
+
+    case 'tick': {
+      // The timer is frozen while a word is being evaluated.
+      if (state.status !== 'playing') return unchanged(state);
+      const bridge = state.bridge && { ...state.bridge, elapsedSeconds: state.bridge.elapsedSeconds + 1 };
+      if (state.timeLeft <= 1) {
+        return applyFailure({ ...state, bridge }, TIMEOUT_WORD, 0, 'timedOut');
+      }
+      return { ...state, timeLeft: state.timeLeft - 1, bridge, events: [] };
+    }
+
+    case 'timeout':
+      if (state.status !== 'playing') return unchanged(state);
+      return applyFailure(state, TIMEOUT_WORD, 0, 'timedOut');
+
+    case 'useHint': {
+      if (state.status !== 'playing') return unchanged(state);
+      const cost = state.difficulty!.rules.hintCost;
+      const players = updateCurrentPlayer(state, player => ({ ...player, score: Math.max(0, player.score - cost) }));
+      const hintNumber = state.hintsUsed + 1;
+      return {
+        ...state,
+        players,
+        hintsUsed: hintNumber,
+        events: [{ type: 'hintUsed', playerIndex: state.currentPlayerIndex, hintNumber, cost }],
+      };
+    }
+
+    case 'restart':
+      return { ...initialGameState, events: [{ type: 'gameRestarted' }] };
+
+    case 'sync':
+      return action.state;
+
+    default:
+      return state;
+  }
+}
+
+export type GameEventListener = (event: GameEvent, state: GameEngineState) => void;
+
+export interface GameEngine {
+  getState(): GameEngineState;
+  dispatch(action: GameAction): void;
+  /** Subscribes to state changes. Compatible with React's useSyncExternalStore. */
+  subscribe(listener: () => void): () => void;
+  /** Subscribes to the events emitted by each action. */
+  onEvent(listener: GameEventListener): () => void;
+}
+
+/**
+ * Creates a small store around the reducer that notifies state and event subscribers.
+ */
+export function createGameEngine(initialState: GameEngineState = initialGameState): GameEngine {
+  let state = initialState;
+  const stateListeners = new Set<() => void>();
+  const eventListeners = new Set<GameEventListener>();
+
+  return {
+    getState: () => state,
+    dispatch(action) {
+      const next = gameReducer(state, action);
+      if (next === state) return;
+      state = next;
+      state.events.forEach(event => eventListeners.forEach(listener => listener(event, state)));
+      stateListeners.forEach(listener => listener());
+    },
+    subscribe(listener) {
+      stateListeners.add(listener);
+      return () => { stateListeners.delete(listener); };
+    },
+    onEvent(listener) {
+      eventListeners.add(listener);
+      return () => { eventListeners.delete(listener); };
+    },
+  };
+}
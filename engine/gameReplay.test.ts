@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { gameReducer, initialGameState, PREDEFINED_DIFFICULTIES, TIMEOUT_WORD, type GameEngineState } from './gameEngine';
+import { replayGame, replayStates, ReplayError } from './gameReplay';
+
+const setup = { difficulty: PREDEFINED_DIFFICULTIES[1], startWord: '사과' };
+
+/** Plays a short solo game to the end: two words, a miss, a hint and two timeouts. */
+function playGame(): GameEngineState {
+  let state = gameReducer(initialGameState, { type: 'start', ...setup });
+  for (const [word, similarity] of [['배', 0.6], ['귤', 0.7], ['돌', 0.1]] as const) {
+    state = gameReducer(state, { type: 'submitWord', word });
+    state = gameReducer(state, { type: 'similarityResolved', word, similarity });
+  }
+  state = gameReducer(state, { type: 'useHint' });
+  while (state.status !== 'over') {
+    state = gameReducer(state, { type: 'timeout' });
+  }
+  return state;
+}
+
+describe('replayGame', () => {
+  it('reaches the same final score as the game it replays', () => {
+    const game = playGame();
+    const replayed = replayGame(setup, game.history);
+    expect(replayed.players[0].score).toBe(game.players[0].score);
+    expect(replayed.history).toEqual(game.history);
+  });
+
+  it('refuses a game that has not ended', () => {
+    expect(() => replayGame(setup, playGame().history.slice(0, 2))).toThrow(ReplayError);
+  });
+
+  it('refuses tampered points', () => {
+    const history = playGame().history.map((attempt, i) => (i === 1 ? { ...attempt, points: attempt.points + 1 } : attempt));
+    expect(() => replayGame(setup, history)).toThrow(ReplayError);
+  });
+
+  it('refuses a chain that skips a word', () => {
+    const history = playGame().history.map((attempt, i) => (i === 1 ? { ...attempt, previousWord: '바다' } : attempt));
+    expect(() => replayGame(setup, history)).toThrow(/does not follow/);
+  });
+
+  it('refuses a repeated word', () => {
+    const [first, second] = playGame().history;
+    const history = [first, { ...second, newWord: '사과' }];
+    expect(() => replayGame(setup, history)).toThrow(/already used/);
+  });
+
+  it('refuses attempts after the game ended', () => {
+    const history = playGame().history;
+    expect(() => replayGame(setup, [...history, { ...history[history.length - 1] }])).toThrow(/after the game ended/);
+  });
+
+  it('returns a state for the start and for every attempt', () => {
+    const history = playGame().history;
+    const states = replayStates(setup, history);
+    expect(states).toHaveLength(history.length + 1);
+    expect(states[0].currentWord).toBe('사과');
+    expect(states[states.length - 1].history.filter(attempt => attempt.newWord === TIMEOUT_WORD)).toHaveLength(2);
+  });
+});
@@ -0,0 +1,94 @@
+import type { Difficulty, GameAttempt, GameMode } from '../types';
+import { gameReducer, initialGameState, TIMEOUT_WORD, type GameEngineState } from './gameEngine';
+
+// 기록된 시도 목록을 게임 엔진에 다시 넣어 게임을 재현합니다.
+// 리더보드 서버는 이것으로 제출된 점수가 규칙대로 나온 것인지 확인하고, 리플레이 화면은 단계별 화면을 만듭니다.
+
+export interface ReplaySetup {
+  difficulty: Difficulty;
+  startWord: string;
+  mode?: GameMode;
+  /** Everyone who took turns, in turn order. Omitted for a solo game. */
+  playerNames?: string[];
+  /** The bridge puzzle, with the seconds the finished bridge took, which decide its score. */
+  bridge?: { targetWord: string; goalSimilarity: number; similarityToTarget: number; elapsedSeconds: number };
+}
+
+/**
+ * Thrown when a history could not have come out of a real game, e.g. a duplicated word or a wrong score.
+ */
+export class ReplayError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ReplayError';
+  }
+}
+
+/**
+ * Plays a game's attempts back through the engine, using each attempt's recorded similarity,
+ * and checks that the engine awards the same outcome and points that were recorded.
+ * @returns The state at the start of the game, followed by the state after each attempt.
+ * @throws {ReplayError} If an attempt could not have been played, or its recorded outcome differs.
+ */
+export function replayStates(setup: ReplaySetup, history: GameAttempt[]): GameEngineState[] {
+  const { bridge, ...start } = setup;
+  let state = gameReducer(initialGameState, {
+    type: 'start',
+    ...start,
+    bridge: bridge && { targetWord: bridge.targetWord, goalSimilarity: bridge.goalSimilarity, similarityToTarget: bridge.similarityToTarget },
+  });
+  // The clock isn't part of the history, so the bridge starts with the time it finally took.
+  if (state.bridge && bridge) {
+    state = { ...state, bridge: { ...state.bridge, elapsedSeconds: bridge.elapsedSeconds } };
+  }
+  const states = [state];
+
+  history.forEach((attempt, i) => {
+    const step = `attempt ${i + 1} ('${attempt.newWord}')`;
+    if (state.status !== 'playing') {
+      throw new ReplayError(`${step} was made after the game ended`);
+    }
+    if (attempt.previousWord !== state.currentWord) {
+      throw new ReplayError(`${step} does not follow '${state.currentWord}'`);
+    }
+    for (let hint = 0; hint < (attempt.hintsUsed ?? 0); hint++) {
+      state = gameReducer(state, { type: 'useHint' });
+    }
+
+    if (attempt.newWord === TIMEOUT_WORD) {
+      state = gameReducer(state, { type: 'timeout' });
+    } else {
+      state = gameReducer(state, { type: 'submitWord', word: attempt.newWord });
+      if (state.pendingWord !== attempt.newWord) {
+        throw new ReplayError(`${step} was already used`);
+      }
+      state = gameReducer(state, {
+        type: 'similarityResolved',
+        word: attempt.newWord,
+        similarity: attempt.similarity,
+        targetSimilarity: attempt.targetSimilarity,
+      });
+    }
+
+    const replayed = state.history[state.history.length - 1];
+    if (replayed.success !== attempt.success || replayed.points !== attempt.points) {
+      throw new ReplayError(`${step} should have ${replayed.success ? 'succeeded' : 'failed'} for ${replayed.points} points`);
+    }
+    states.push(state);
+  });
+
+  return states;
+}
+
+/**
+ * Replays a finished game and returns its final state.
+ * @throws {ReplayError} If the history doesn't hold up, or the game it describes did not end.
+ */
+export function replayGame(setup: ReplaySetup, history: GameAttempt[]): GameEngineState {
+  const states = replayStates(setup, history);
+  const state = states[states.length - 1];
+  if (state.status !== 'over') {
+    throw new ReplayError('the game did not end');
+  }
+  return state;
+}
@@ -0,0 +1,73 @@
+// fastText 형식(.vec)의 한국어 단어 벡터를 오프라인 모드용 .kwv 파일로 변환합니다.
+// 형식은 services/wordVectors.ts 를 참고하세요.
+//
+// 사용법: node scripts/build-word-vectors.mjs <input.vec> [--limit 20000] [--out public/word-vectors/ko.kwv]
+//
+// .vec 파일은 빈도순으로 정렬되어 있으므로 앞에서부터 한글로만 된 단어를 limit 개까지 담습니다.
+import fs from 'node:fs';
+import path from 'node:path';
+import readline from 'node:readline';
+
+// services/wordVectors.ts 의 normalizeWord 와 같아야 합니다.
+const normalizeWord = (word) => word.normalize('NFC').trim().toLowerCase().replace(/[\s"'.,!?~·]/g, '');
+
+function parseArgs(argv) {
+  const args = { input: null, limit: 20000, out: 'public/word-vectors/ko.kwv' };
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === '--limit') args.limit = parseInt(argv[++i], 10);
+    else if (argv[i] === '--out') args.out = argv[++i];
+    else args.input = argv[i];
+  }
+  if (!args.input || !(args.limit > 0)) {
+    console.error('Usage: node scripts/build-word-vectors.mjs <input.vec> [--limit 20000] [--out path]');
+    process.exit(1);
+  }
+  return args;
+}
+
+async function main() {
+  const { input, limit, out } = parseArgs(process.argv.slice(2));
+  const lines = readline.createInterface({ input: fs.createReadStream(input, 'utf8'), crlfDelay: Infinity });
+
+  const words = [];
+  const seen = new Set();
+  let dim = 0;
+  let vectors = null;
+
+  for await (const line of lines) {
+    const parts = line.trimEnd().split(' ');
+    if (dim === 0) {
+      // Header line: "<count> <dim>"
+      dim = parseInt(parts[1], 10);
+      vectors = new Int8Array(limit * dim);
+      continue;
+    }
+    const word = normalizeWord(parts[0]);
+    if (!/^[가-힣]+$/.test(word) || seen.has(word) || parts.length !== dim + 1) continue;
+
+    const values = parts.slice(1).map(Number);
+    const maxAbs = Math.max(...values.map(Math.abs)) || 1;
+    const offset = words.length * dim;
+    values.forEach((value, i) => { vectors[offset + i] = Math.round((value / maxAbs) * 127); });
+
+    seen.add(word);
+    words.push(word);
+    if (words.length >= limit) break;
+  }
+  lines.close();
+
+  const header = Buffer.alloc(12);
+  header.write('KWV1', 0, 'ascii');
+  header.writeUInt32LE(words.length, 4);
+  header.writeUInt32LE(dim, 8);
+  const body = Buffer.from(vectors.buffer, 0, words.length * dim);
+
+  fs.mkdirSync(path.dirname(out), { recursive: true });
+  fs.writeFileSync(out, Buffer.concat([header, body, Buffer.from(words.join('\n'), 'utf8')]));
+  console.log(`Wrote ${words.length} words x ${dim} dims to ${out}`);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,346 @@
+import { randomUUID } from 'node:crypto';
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import { DatabaseSync } from 'node:sqlite';
+import { getKstDateKey, getDailyStartWord, DAILY_DIFFICULTY } from '../services/dailyChallengeService';
+import { getLeaderboardDifficultyKey, getWindowStart, LEADERBOARD_WINDOWS, type LeaderboardWindow } from '../services/leaderboardRanking';
+import { createServerSimilarity } from './similarity';
+import { parseDifficulty, RejectedRunError, verifyRun } from './scoreVerification';
+
+// 직접 운영하는 리더보드 서버: 점수를 SQLite 파일에 저장하고 간단한 REST API로 순위를 돌려줍니다.
+// 점수는 게임을 시작할 때 발급한 실행 토큰과 전체 시도 기록을 함께 받아, 다시 재현해 본 뒤에만 기록합니다.
+// 규약은 README.md 의 "Leaderboard API"를 참고하세요.
+
+const PORT = parseInt(process.env.LEADERBOARD_PORT || '8788', 10);
+const HOST = process.env.HOST || 'localhost';
+const DB_PATH = process.env.LEADERBOARD_DB || 'leaderboard.db';
+
+const BOARDS = ['classic', 'daily', 'distance'];
+const DEFAULT_LIMIT = 3;
+const MAX_LIMIT = 100;
+const MAX_NAME_LENGTH = 20;
+const MAX_DIFFICULTY_LENGTH = 64;
+const MAX_SUBMISSION_ID_LENGTH = 64;
+const MAX_SCORE = 10_000_000;
+const MAX_BODY_BYTES = 256 * 1024;
+/** How long a run token stays valid after the game starts. */
+const RUN_TTL_MS = 24 * 60 * 60 * 1000;
+
+const db = new DatabaseSync(DB_PATH);
+db.exec(`
+  CREATE TABLE IF NOT EXISTS scores (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    board TEXT NOT NULL,
+    date TEXT NOT NULL DEFAULT '',
+    difficulty TEXT NOT NULL DEFAULT '',
+    submission_id TEXT,
+    name TEXT NOT NULL,
+    score INTEGER NOT NULL,
+    created_at INTEGER NOT NULL
+  );
+`);
+// Databases created before scores were split by difficulty keep their old scores under an empty difficulty.
+const columns = db.prepare('PRAGMA table_info(scores)').all() as { name: string }[];
+if (!columns.some(column => column.name === 'difficulty')) {
+  db.exec("ALTER TABLE scores ADD COLUMN difficulty TEXT NOT NULL DEFAULT ''");
+}
+if (!columns.some(column => column.name === 'submission_id')) {
+  db.exec('ALTER TABLE scores ADD COLUMN submission_id TEXT');
+}
+db.exec(`
+  CREATE INDEX IF NOT EXISTS scores_by_board ON scores (board, date, score DESC);
+  CREATE UNIQUE INDEX IF NOT EXISTS scores_by_submission ON scores (submission_id) WHERE submission_id IS NOT NULL;
+  CREATE TABLE IF NOT EXISTS runs (
+    token TEXT PRIMARY KEY,
+    board TEXT NOT NULL,
+    date TEXT NOT NULL,
+    difficulty TEXT NOT NULL,
+    start_word TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    used INTEGER NOT NULL DEFAULT 0
+  );
+  CREATE TABLE IF NOT EXISTS similarities (
+    word1 TEXT NOT NULL,
+    word2 TEXT NOT NULL,
+    similarity REAL NOT NULL,
+    PRIMARY KEY (word1, word2)
+  );
+`);
+
+const insertScore = db.prepare(
+  'INSERT INTO scores (board, date, difficulty, submission_id, name, score, created_at) VALUES (?, ?, ?, ?, ?, ?, ?)',
+);
+const selectSubmission = db.prepare('SELECT 1 FROM scores WHERE submission_id = ?');
+
+const insertRun = db.prepare(
+  'INSERT INTO runs (token, board, date, difficulty, start_word, created_at) VALUES (?, ?, ?, ?, ?, ?)',
+);
+const selectRun = db.prepare('SELECT board, date, difficulty, start_word AS startWord, created_at AS createdAt FROM runs WHERE token = ?');
+// Claiming a run is a single UPDATE, so the same run can't be recorded twice, even when submitted concurrently.
+const claimRun = db.prepare('UPDATE runs SET used = 1 WHERE token = ? AND used = 0');
+const selectSimilarity = db.prepare('SELECT similarity FROM similarities WHERE word1 = ? AND word2 = ?');
+const insertSimilarity = db.prepare('INSERT OR REPLACE INTO similarities (word1, word2, similarity) VALUES (?, ?, ?)');
+
+const similarity = createServerSimilarity();
+
+/**
+ * Looks up a similarity in the database before asking the provider, so replays of common words stay cheap.
+ */
+async function getSimilarity(word1: string, word2: string): Promise<number> {
+  const cached = selectSimilarity.get(word1, word2) as { similarity: number } | undefined;
+  if (cached) return cached.similarity;
+  const value = await similarity.calculateSimilarity(word1, word2);
+  insertSimilarity.run(word1, word2, value);
+  return value;
+}
+
+interface Scope {
+  board: string;
+  date: string;
+  /** Empty means every difficulty. */
+  difficulty: string;
+  window: LeaderboardWindow;
+}
+
+class BadRequestError extends Error {}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, {
+    'Content-Type': 'application/json; charset=utf-8',
+    // The game is usually served from a different origin than this server.
+    'Access-Control-Allow-Origin': '*',
+  });
+  res.end(JSON.stringify(body));
+}
+
+/**
+ * Validates the board and date shared by queries and submissions. The daily board is kept per date.
+ */
+function parseBoard(board: unknown, date: unknown): { board: string; date: string } {
+  if (typeof board !== 'string' || !BOARDS.includes(board)) {
+    throw new BadRequestError(`board must be one of: ${BOARDS.join(', ')}`);
+  }
+  if (board !== 'daily') return { board, date: '' };
+  if (typeof date !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+    throw new BadRequestError('date (YYYY-MM-DD) is required for the daily board');
+  }
+  return { board, date };
+}
+
+/**
+ * Reads the board, date, difficulty and time window a query is about.
+ */
+function parseScope(params: URLSearchParams): Scope {
+  const { board, date } = parseBoard(params.get('board'), params.get('date'));
+  const window = (params.get('window') || 'all') as LeaderboardWindow;
+  if (!LEADERBOARD_WINDOWS.includes(window)) {
+    throw new BadRequestError(`window must be one of: ${LEADERBOARD_WINDOWS.join(', ')}`);
+  }
+  return { board, date, difficulty: params.get('difficulty') || '', window };
+}
+
+/**
+ * Builds the WHERE clause for a scope. The daily board is already limited to one day, so it ignores the window.
+ */
+function whereScope(scope: Scope): { sql: string; params: (string | number)[] } {
+  let sql = 'board = ? AND date = ?';
+  const params: (string | number)[] = [scope.board, scope.date];
+  if (scope.difficulty) {
+    sql += ' AND difficulty = ?';
+    params.push(scope.difficulty);
+  }
+  const since = scope.board === 'daily' ? null : getWindowStart(scope.window);
+  if (since !== null) {
+    sql += ' AND created_at >= ?';
+    params.push(since);
+  }
+  return { sql, params };
+}
+
+/**
+ * Parses an optional non-negative integer query parameter.
+ */
+function parseInteger(params: URLSearchParams, name: string, fallback: number, max: number): number {
+  const raw = params.get(name);
+  if (raw === null) return fallback;
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < 0 || value > max) {
+    throw new BadRequestError(`${name} must be an integer between 0 and ${max}`);
+  }
+  return value;
+}
+
+/**
+ * Reads a JSON object body. Its fields are still unchecked.
+ */
+async function readJson(req: IncomingMessage): Promise<Record<string, unknown>> {
+  let body: unknown;
+  try {
+    body = JSON.parse(await readBody(req));
+  } catch (error) {
+    if (error instanceof BadRequestError) throw error;
+    throw new BadRequestError('body must be JSON');
+  }
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    throw new BadRequestError('body must be a JSON object');
+  }
+  return body as Record<string, unknown>;
+}
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    req.setEncoding('utf8');
+    req.on('data', (chunk: string) => {
+      body += chunk;
+      if (body.length > MAX_BODY_BYTES) {
+        reject(new BadRequestError('request body is too large'));
+        req.destroy();
+      }
+    });
+    req.on('end', () => resolve(body));
+    req.on('error', reject);
+  });
+}
+
+function handleGetLeaderboard(url: URL, res: ServerResponse): void {
+  const where = whereScope(parseScope(url.searchParams));
+  const offset = parseInteger(url.searchParams, 'offset', 0, Number.MAX_SAFE_INTEGER);
+  const limit = parseInteger(url.searchParams, 'limit', DEFAULT_LIMIT, MAX_LIMIT);
+  // Tied scores share a rank, so RANK() is taken over the whole scope before the page is cut.
+  const entries = db.prepare(
+    `SELECT name, score, NULLIF(difficulty, '') AS difficulty, created_at AS createdAt, RANK() OVER (ORDER BY score DESC) AS rank
+     FROM scores WHERE ${where.sql} ORDER BY score DESC, created_at ASC LIMIT ? OFFSET ?`,
+  ).all(...where.params, limit, offset);
+  const { total } = db.prepare(`SELECT COUNT(*) AS total FROM scores WHERE ${where.sql}`).get(...where.params) as { total: number };
+  sendJson(res, 200, { entries, total });
+}
+
+function handleGetRank(url: URL, res: ServerResponse): void {
+  const where = whereScope(parseScope(url.searchParams));
+  const score = parseInteger(url.searchParams, 'score', -1, MAX_SCORE);
+  if (score < 0) throw new BadRequestError('score is required');
+  const { higher } = db.prepare(`SELECT COUNT(*) AS higher FROM scores WHERE ${where.sql} AND score > ?`)
+    .get(...where.params, score) as { higher: number };
+  sendJson(res, 200, { rank: higher + 1 });
+}
+
+/**
+ * Issues a run token when a ranked game starts. The token pins the board, difficulty and start word,
+ * and the time it was issued bounds how long the game can take.
+ * The server picks the start word, so players can't choose an easy one.
+ */
+async function handlePostRun(req: IncomingMessage, res: ServerResponse): Promise<void> {
+  const payload = await readJson(req);
+  const { board, date } = parseBoard(payload.board, payload.date);
+  const difficulty = parseDifficulty(payload.difficulty);
+
+  if ((board === 'distance') !== (difficulty.rules.direction === 'distant')) {
+    throw new RejectedRunError(`difficulty '${difficulty.name}' does not belong on the ${board} board`);
+  }
+  if (board === 'daily') {
+    // Everyone plays the same daily challenge: today's date, rules and start word.
+    if (date !== getKstDateKey()) throw new RejectedRunError(`${date} is not today's daily challenge`);
+    if (getLeaderboardDifficultyKey(difficulty) !== getLeaderboardDifficultyKey(DAILY_DIFFICULTY)) {
+      throw new RejectedRunError('the daily challenge must use its own difficulty');
+    }
+  }
+
+  const startWord = board === 'daily' ? getDailyStartWord(date) : await similarity.getStartWord();
+  const token = randomUUID();
+  insertRun.run(token, board, date, JSON.stringify(difficulty), startWord, Date.now());
+  sendJson(res, 201, { token, startWord });
+}
+
+/**
+ * Replays the submitted game and records the score only if it matches.
+ */
+async function handlePostScore(req: IncomingMessage, res: ServerResponse): Promise<void> {
+  const payload = await readJson(req);
+  // Clients retry submissions whose response they never saw, so one that was already recorded just succeeds again.
+  const submissionId = payload.id;
+  if (typeof submissionId !== 'string' || submissionId.length === 0 || submissionId.length > MAX_SUBMISSION_ID_LENGTH) {
+    throw new BadRequestError(`id must be 1-${MAX_SUBMISSION_ID_LENGTH} characters`);
+  }
+  if (selectSubmission.get(submissionId)) {
+    sendJson(res, 200, { status: 'success' });
+    return;
+  }
+  const { board, date } = parseBoard(payload.board, payload.date);
+  const name = typeof payload.name === 'string' ? payload.name.trim() : '';
+  if (name.length === 0 || name.length > MAX_NAME_LENGTH) {
+    throw new BadRequestError(`name must be 1-${MAX_NAME_LENGTH} characters`);
+  }
+  const difficulty = typeof payload.difficulty === 'string' ? payload.difficulty.trim() : '';
+  if (difficulty.length === 0 || difficulty.length > MAX_DIFFICULTY_LENGTH) {
+    throw new BadRequestError(`difficulty must be 1-${MAX_DIFFICULTY_LENGTH} characters`);
+  }
+  const score = payload.score;
+  if (typeof score !== 'number' || !Number.isInteger(score) || score < 0 || score > MAX_SCORE) {
+    throw new BadRequestError(`score must be an integer between 0 and ${MAX_SCORE}`);
+  }
+
+  const submittedRun = typeof payload.run === 'object' && payload.run !== null ? payload.run as Record<string, unknown> : {};
+  const token = typeof submittedRun.token === 'string' ? submittedRun.token : '';
+  const run = token
+    ? selectRun.get(token) as { board: string; date: string; difficulty: string; startWord: string; createdAt: number } | undefined
+    : undefined;
+  if (!run) throw new RejectedRunError('run token is missing or unknown');
+  const elapsedMs = Date.now() - run.createdAt;
+  if (elapsedMs > RUN_TTL_MS) throw new RejectedRunError('run token has expired');
+  const runDifficulty = parseDifficulty(JSON.parse(run.difficulty));
+  if (run.board !== board || run.date !== date || getLeaderboardDifficultyKey(runDifficulty) !== difficulty) {
+    throw new RejectedRunError('score does not match the run it was started as');
+  }
+
+  const verifiedScore = await verifyRun(
+    submittedRun.history,
+    { difficulty: runDifficulty, startWord: run.startWord, mode: board === 'daily' ? 'daily' : 'classic' },
+    elapsedMs,
+    getSimilarity,
+  );
+  if (verifiedScore !== score) {
+    throw new RejectedRunError(`the game ends with ${verifiedScore} points, not ${score}`);
+  }
+  if (claimRun.run(token).changes === 0) throw new RejectedRunError('this run has already been submitted');
+  insertScore.run(board, date, difficulty, submissionId, name, score, Date.now());
+  sendJson(res, 201, { status: 'success' });
+}
+
+const server = createServer(async (req, res) => {
+  const url = new URL(req.url || '/', `http://${req.headers.host || 'localhost'}`);
+  try {
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204, {
+        'Access-Control-Allow-Origin': '*',
+        'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+        'Access-Control-Allow-Headers': 'Content-Type',
+      });
+      res.end();
+    } else if (req.method === 'GET' && url.pathname === '/leaderboard') {
+      handleGetLeaderboard(url, res);
+    } else if (req.method === 'GET' && url.pathname === '/rank') {
+      handleGetRank(url, res);
+    } else if (req.method === 'POST' && url.pathname === '/runs') {
+      await handlePostRun(req, res);
+    } else if (req.method === 'POST' && url.pathname === '/scores') {
+      await handlePostScore(req, res);
+    } else {
+      sendJson(res, 404, { error: 'not found' });
+    }
+  } catch (error) {
+    if (error instanceof BadRequestError) {
+      sendJson(res, 400, { error: error.message });
+      return;
+    }
+    if (error instanceof RejectedRunError) {
+      sendJson(res, 422, { error: error.message });
+      return;
+    }
+    console.error('Leaderboard request failed:', error);
+    sendJson(res, 500, { error: 'internal error' });
+  }
+});
+
+server.listen(PORT, HOST, () => {
+  console.log(`Leaderboard server listening on http://${HOST}:${PORT} (database: ${DB_PATH})`);
+});
@@ -0,0 +1,36 @@
+import type { Difficulty } from '../types';
+import type { GameEngineState } from '../engine/gameEngine';
+
+// 온라인 방 서버와 클라이언트가 WebSocket으로 주고받는 JSON 메시지입니다.
+// 클라이언트(services/onlineRoomService.ts)와 서버(server/rooms.ts)가 함께 사용합니다.
+
+export interface RoomPlayer {
+  id: string;
+  name: string;
+  connected: boolean;
+}
+
+export interface RoomSnapshot {
+  code: string;
+  hostId: string;
+  players: RoomPlayer[];
+  difficulty: Difficulty;
+  /** Whether a game is in progress or finished in this room. */
+  started: boolean;
+}
+
+export type ClientMessage =
+  | { type: 'createRoom'; name: string; difficulty: Difficulty }
+  | { type: 'joinRoom'; code: string; name: string }
+  | { type: 'startGame' }
+  /** Sent by the host after a game ends, to return the room to the lobby. */
+  | { type: 'restartGame' }
+  | { type: 'submitWord'; word: string }
+  | { type: 'leaveRoom' };
+
+export type ServerMessage =
+  | { type: 'joined'; playerId: string; room: RoomSnapshot }
+  | { type: 'roomUpdated'; room: RoomSnapshot }
+  /** The authoritative game state, including the events of the transition that produced it. */
+  | { type: 'gameState'; state: GameEngineState }
+  | { type: 'error'; message: string };
@@ -0,0 +1,306 @@
+import { randomUUID } from 'node:crypto';
+import { WebSocketServer, WebSocket } from 'ws';
+import { gameReducer, initialGameState, PREDEFINED_DIFFICULTIES, type GameAction, type GameEngineState } from '../engine/gameEngine';
+import { WordNotInVocabularyError } from '../services/errors';
+import { getVerdictRejection } from '../services/wordVerdict';
+import type { Difficulty } from '../types';
+import type { ClientMessage, RoomPlayer, RoomSnapshot, ServerMessage } from './protocol';
+import { parseDifficulty, RejectedRunError } from './scoreVerification';
+import { createServerSimilarity } from './similarity';
+
+// 온라인 방 서버: 방마다 게임 엔진 상태를 보관하고 차례, 타이머, 채점을 직접 결정합니다.
+// 클라이언트는 단어를 제출하고 서버가 보내는 상태를 그대로 화면에 그립니다.
+
+const PORT = parseInt(process.env.PORT || '8787', 10);
+const HOST = process.env.HOST || 'localhost';
+const MAX_PLAYERS = 4;
+// Ambiguous characters (0/O, 1/I) are left out so codes are easy to read aloud.
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const CODE_LENGTH = 4;
+
+interface Client {
+  socket: WebSocket;
+  playerId: string;
+  room: Room | null;
+}
+
+interface Room {
+  code: string;
+  hostId: string;
+  players: RoomPlayer[];
+  difficulty: Difficulty;
+  game: GameEngineState;
+  timer: NodeJS.Timeout | null;
+  /** Set while the start word is being picked, so a repeated startGame doesn't start the game twice. */
+  starting: boolean;
+  clients: Set<Client>;
+}
+
+const rooms = new Map<string, Room>();
+const similarity = createServerSimilarity();
+
+function send(client: Client, message: ServerMessage): void {
+  if (client.socket.readyState === WebSocket.OPEN) {
+    client.socket.send(JSON.stringify(message));
+  }
+}
+
+function broadcast(room: Room, message: ServerMessage): void {
+  room.clients.forEach(client => send(client, message));
+}
+
+function snapshot(room: Room): RoomSnapshot {
+  return {
+    code: room.code,
+    hostId: room.hostId,
+    players: room.players,
+    difficulty: room.difficulty,
+    started: room.game.status !== 'idle',
+  };
+}
+
+function generateCode(): string {
+  let code: string;
+  do {
+    code = Array.from({ length: CODE_LENGTH }, () => CODE_ALPHABET[Math.floor(Math.random() * CODE_ALPHABET.length)]).join('');
+  } while (rooms.has(code));
+  return code;
+}
+
+/**
+ * Applies an action to the room's game and sends the resulting state to everyone in the room.
+ */
+function dispatch(room: Room, action: GameAction): void {
+  const next = gameReducer(room.game, action);
+  if (next === room.game) return;
+  room.game = next;
+  broadcast(room, { type: 'gameState', state: next });
+
+  if (next.status === 'over' && room.timer) {
+    clearInterval(room.timer);
+    room.timer = null;
+  }
+}
+
+/**
+ * Returns a name that is not yet taken in the room, since history is attributed by player name.
+ */
+function uniqueName(room: Room | null, requested: string): string {
+  const base = requested.trim().slice(0, 10) || '플레이어';
+  if (!room) return base;
+  let name = base;
+  for (let i = 2; room.players.some(player => player.name === name); i++) {
+    name = `${base} (${i})`;
+  }
+  return name;
+}
+
+function leaveRoom(client: Client): void {
+  const room = client.room;
+  if (!room) return;
+  client.room = null;
+  room.clients.delete(client);
+
+  if (room.game.status === 'idle') {
+    // Before the game starts, leaving frees the seat.
+    room.players = room.players.filter(player => player.id !== client.playerId);
+  } else {
+    // During a game the seat is kept so turn order stays stable; the player's turns simply time out.
+    room.players = room.players.map(player => (player.id === client.playerId ? { ...player, connected: false } : player));
+  }
+
+  if (room.clients.size === 0) {
+    if (room.timer) clearInterval(room.timer);
+    rooms.delete(room.code);
+    return;
+  }
+  if (room.hostId === client.playerId) {
+    room.hostId = [...room.clients][0].playerId;
+  }
+  broadcast(room, { type: 'roomUpdated', room: snapshot(room) });
+}
+
+async function startGame(client: Client, room: Room): Promise<void> {
+  if (room.hostId !== client.playerId) {
+    send(client, { type: 'error', message: '방장만 게임을 시작할 수 있습니다.' });
+    return;
+  }
+  if (room.game.status !== 'idle' || room.starting) {
+    send(client, { type: 'error', message: '이미 게임이 진행 중입니다.' });
+    return;
+  }
+  if (room.players.length < 2) {
+    send(client, { type: 'error', message: '두 명 이상 모여야 시작할 수 있습니다.' });
+    return;
+  }
+
+  room.starting = true;
+  let startWord: string;
+  try {
+    startWord = await similarity.getStartWord();
+  } finally {
+    room.starting = false;
+  }
+  // Everyone may have left while the word was being picked, which tears the room down.
+  if (rooms.get(room.code) !== room || room.game.status !== 'idle') return;
+  dispatch(room, {
+    type: 'start',
+    difficulty: room.difficulty,
+    startWord,
+    mode: 'online',
+    playerNames: room.players.map(player => player.name),
+  });
+  broadcast(room, { type: 'roomUpdated', room: snapshot(room) });
+  if (room.timer) clearInterval(room.timer);
+  room.timer = setInterval(() => dispatch(room, { type: 'tick' }), 1000);
+}
+
+/**
+ * Puts a finished room back in the lobby so the host can start another game with the same code.
+ * Players who left during the game give up their seats.
+ */
+function restartGame(client: Client, room: Room): void {
+  if (room.hostId !== client.playerId) {
+    send(client, { type: 'error', message: '방장만 게임을 다시 시작할 수 있습니다.' });
+    return;
+  }
+  if (room.game.status !== 'over') {
+    send(client, { type: 'error', message: '게임이 끝난 뒤에 다시 시작할 수 있습니다.' });
+    return;
+  }
+  room.players = room.players.filter(player => player.connected);
+  dispatch(room, { type: 'restart' });
+  broadcast(room, { type: 'roomUpdated', room: snapshot(room) });
+}
+
+async function submitWord(client: Client, room: Room, word: string): Promise<void> {
+  const game = room.game;
+  const playerIndex = room.players.findIndex(player => player.id === client.playerId);
+  if (game.status !== 'playing' || playerIndex !== game.currentPlayerIndex) {
+    send(client, { type: 'error', message: '지금은 당신의 차례가 아닙니다.' });
+    return;
+  }
+
+  const { currentWord } = game;
+  dispatch(room, { type: 'submitWord', word });
+  if (room.game.pendingWord !== word) return;
+
+  try {
+    // Scored by the embeddings like in the browser. The verdict only turns away words that aren't real nouns.
+    const [score, verdict] = await Promise.all([
+      similarity.calculateSimilarity(currentWord, word),
+      similarity.judgeWord?.(currentWord, word),
+    ]);
+    const rejection = verdict && getVerdictRejection(word, verdict);
+    if (rejection) {
+      dispatch(room, { type: 'wordRejected', word, reason: rejection });
+      return;
+    }
+    dispatch(room, { type: 'similarityResolved', word, similarity: score, reason: verdict?.reason });
+  } catch (error) {
+    if (error instanceof WordNotInVocabularyError) {
+      dispatch(room, { type: 'wordRejected', word, reason: error.message });
+      return;
+    }
+    console.error(`Error calculating similarity between ${currentWord} and ${word}:`, error);
+    dispatch(room, { type: 'similarityFailed', word, message: '유사도 계산 중 오류가 발생했습니다. 다시 시도해주세요.' });
+  }
+}
+
+async function handleMessage(client: Client, message: ClientMessage): Promise<void> {
+  switch (message.type) {
+    case 'createRoom': {
+      // Rooms are created from the same difficulty form as ranked games, so they get the same checks.
+      let difficulty: Difficulty;
+      try {
+        difficulty = message.difficulty ? parseDifficulty(message.difficulty) : PREDEFINED_DIFFICULTIES[1];
+      } catch (error) {
+        if (!(error instanceof RejectedRunError)) throw error;
+        send(client, { type: 'error', message: '난이도 설정이 올바르지 않습니다.' });
+        return;
+      }
+      leaveRoom(client);
+      const room: Room = {
+        code: generateCode(),
+        hostId: client.playerId,
+        players: [{ id: client.playerId, name: uniqueName(null, message.name), connected: true }],
+        difficulty,
+        game: initialGameState,
+        timer: null,
+        starting: false,
+        clients: new Set([client]),
+      };
+      rooms.set(room.code, room);
+      client.room = room;
+      send(client, { type: 'joined', playerId: client.playerId, room: snapshot(room) });
+      break;
+    }
+
+    case 'joinRoom': {
+      const room = rooms.get(message.code.trim().toUpperCase());
+      if (!room) {
+        send(client, { type: 'error', message: '해당 코드의 방을 찾을 수 없습니다.' });
+        return;
+      }
+      if (room.game.status !== 'idle') {
+        send(client, { type: 'error', message: '이미 게임이 시작된 방입니다.' });
+        return;
+      }
+      if (room.players.length >= MAX_PLAYERS) {
+        send(client, { type: 'error', message: '방이 가득 찼습니다.' });
+        return;
+      }
+      leaveRoom(client);
+      room.players.push({ id: client.playerId, name: uniqueName(room, message.name), connected: true });
+      room.clients.add(client);
+      client.room = room;
+      send(client, { type: 'joined', playerId: client.playerId, room: snapshot(room) });
+      broadcast(room, { type: 'roomUpdated', room: snapshot(room) });
+      break;
+    }
+
+    case 'startGame':
+      if (client.room) await startGame(client, client.room);
+      break;
+
+    case 'restartGame':
+      if (client.room) restartGame(client, client.room);
+      break;
+
+    case 'submitWord':
+      if (client.room && typeof message.word === 'string' && message.word.trim()) {
+        await submitWord(client, client.room, message.word.trim());
+      }
+      break;
+
+    case 'leaveRoom':
+      leaveRoom(client);
+      break;
+  }
+}
+
+const server = new WebSocketServer({ port: PORT, host: HOST });
+
+server.on('connection', (socket) => {
+  const client: Client = { socket, playerId: randomUUID(), room: null };
+
+  socket.on('message', (data) => {
+    let message: ClientMessage;
+    try {
+      message = JSON.parse(data.toString());
+    } catch {
+      send(client, { type: 'error', message: '잘못된 메시지 형식입니다.' });
+      return;
+    }
+    handleMessage(client, message).catch((error) => {
+      console.error("Error handling message:", error);
+      send(client, { type: 'error', message: '서버에서 요청을 처리하지 못했습니다.' });
+    });
+  });
+
+  socket.on('close', () => leaveRoom(client));
+});
+
+server.on('listening', () => {
+  console.log(`Room server listening on ws://${HOST}:${PORT}`);
+});
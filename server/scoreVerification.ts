@@ -0,0 +1,149 @@
+import { TIMEOUT_WORD } from '../engine/gameEngine';
+import { replayGame, ReplayError } from '../engine/gameReplay';
+import { WordNotInVocabularyError } from '../services/errors';
+import type { Difficulty, GameAttempt, GameRules } from '../types';
+
+// 제출된 게임 기록을 검증합니다: 난이도 규칙이 허용 범위인지, 유사도가 서버 계산과 맞는지,
+// 그리고 게임 엔진으로 다시 재현했을 때 같은 점수가 나오는지 확인합니다.
+
+/** How far a recorded similarity may drift from the server's own calculation. */
+const SIMILARITY_TOLERANCE = 0.01;
+const MAX_ATTEMPTS = 1000;
+/** How long scoring one word may take. The turn timer is frozen meanwhile, so a turn can last this much longer. */
+const MAX_EVALUATION_SECONDS = 30;
+/** How long a finished game may take to reach the server, e.g. while the player types their name. */
+const SUBMISSION_GRACE_SECONDS = 15 * 60;
+
+/** Allowed ranges, matching the custom rules form in the game. */
+const RULE_RANGES: Record<Exclude<keyof GameRules, 'direction' | 'resetLivesOnSuccess'>, [number, number]> = {
+  lives: [1, 5],
+  timerSeconds: [5, 120],
+  thresholdStep: [0, 0.1],
+  failurePenalty: [0, 10000],
+  roundBonus: [0, 1],
+  hintCost: [0, 10000],
+};
+
+/**
+ * Thrown when a submitted game does not hold up: the score is not accepted.
+ */
+export class RejectedRunError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RejectedRunError';
+  }
+}
+
+export type SimilarityLookup = (word1: string, word2: string) => Promise<number>;
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+const inRange = (value: unknown, [min, max]: [number, number]): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max;
+
+function isDifficulty(value: unknown): value is Difficulty {
+  if (!isRecord(value) || !isRecord(value.rules)) return false;
+  const rules = value.rules;
+  return typeof value.name === 'string' && value.name.length > 0
+    && inRange(value.threshold, [0.01, 1]) && inRange(value.multiplier, [0.1, 10])
+    && (rules.direction === 'similar' || rules.direction === 'distant')
+    && typeof rules.resetLivesOnSuccess === 'boolean'
+    && Object.entries(RULE_RANGES).every(([key, range]) => inRange(rules[key], range));
+}
+
+/**
+ * Checks that a difficulty sent by a client is one the game could have produced, and copies only its known fields.
+ * A custom difficulty named like a built-in one gets its own leaderboard key, so it needs no special check here.
+ * @throws {RejectedRunError} If the difficulty is malformed or out of range.
+ */
+export function parseDifficulty(value: unknown): Difficulty {
+  if (!isDifficulty(value)) throw new RejectedRunError('difficulty is malformed or out of range');
+  const { rules } = value;
+  return {
+    name: value.name,
+    threshold: value.threshold,
+    multiplier: value.multiplier,
+    rules: {
+      direction: rules.direction,
+      lives: rules.lives,
+      timerSeconds: rules.timerSeconds,
+      thresholdStep: rules.thresholdStep,
+      failurePenalty: rules.failurePenalty,
+      roundBonus: rules.roundBonus,
+      resetLivesOnSuccess: rules.resetLivesOnSuccess,
+      hintCost: rules.hintCost,
+    },
+  };
+}
+
+function isAttempt(value: unknown): value is GameAttempt {
+  return isRecord(value) && typeof value.previousWord === 'string' && typeof value.newWord === 'string'
+    && typeof value.similarity === 'number' && Number.isFinite(value.similarity)
+    && typeof value.success === 'boolean' && Number.isInteger(value.points)
+    && (value.hintsUsed === undefined || (Number.isInteger(value.hintsUsed) && inRange(value.hintsUsed, [0, 10])));
+}
+
+/**
+ * Checks that a game fits in the time since its run token was issued.
+ * Every timeout takes a whole turn, and no turn outlasts the timer and the scoring of its word.
+ * @throws {RejectedRunError} If the game was played faster or slower than the rules allow.
+ */
+function checkDuration(history: GameAttempt[], rules: GameRules, elapsedMs: number): void {
+  const elapsedSeconds = elapsedMs / 1000;
+  const timeouts = history.filter(attempt => attempt.newWord === TIMEOUT_WORD).length;
+  // The timer ticks once a second from the start of the game, so a turn can be up to a second short.
+  if (elapsedSeconds < timeouts * (rules.timerSeconds - 1)) {
+    throw new RejectedRunError(`${timeouts} timeouts can't happen in ${Math.round(elapsedSeconds)} seconds`);
+  }
+  if (elapsedSeconds > history.length * (rules.timerSeconds + MAX_EVALUATION_SECONDS) + SUBMISSION_GRACE_SECONDS) {
+    throw new RejectedRunError(`${history.length} turns can't take ${Math.round(elapsedSeconds)} seconds`);
+  }
+}
+
+/**
+ * Re-checks every similarity in a history against the server, then replays the game through the engine.
+ * @param history The attempts sent by the client.
+ * @param setup The difficulty, start word and mode recorded when the run was issued.
+ * @param elapsedMs Time since the run token was issued.
+ * @returns The score the game really ended with.
+ * @throws {RejectedRunError} If the history doesn't start from the run's word, takes an impossible time,
+ * or a similarity or the replayed outcome doesn't match.
+ */
+export async function verifyRun(
+  history: unknown,
+  setup: { difficulty: Difficulty; startWord: string; mode: 'classic' | 'daily' },
+  elapsedMs: number,
+  similarity: SimilarityLookup,
+): Promise<number> {
+  if (!Array.isArray(history) || history.length === 0 || history.length > MAX_ATTEMPTS || !history.every(isAttempt)) {
+    throw new RejectedRunError('history is malformed');
+  }
+  if (history[0].previousWord !== setup.startWord) {
+    throw new RejectedRunError(`history does not start from the run's start word '${setup.startWord}'`);
+  }
+  checkDuration(history, setup.difficulty.rules, elapsedMs);
+
+  for (const attempt of history) {
+    if (attempt.newWord === TIMEOUT_WORD) continue;
+    let expected: number;
+    try {
+      expected = await similarity(attempt.previousWord, attempt.newWord);
+    } catch (error) {
+      if (error instanceof WordNotInVocabularyError) {
+        throw new RejectedRunError(`'${error.word}' is not in the server's vocabulary`);
+      }
+      throw error;
+    }
+    if (Math.abs(expected - attempt.similarity) > SIMILARITY_TOLERANCE) {
+      throw new RejectedRunError(`similarity of '${attempt.previousWord}' and '${attempt.newWord}' does not match`);
+    }
+  }
+
+  try {
+    const state = replayGame(setup, history);
+    return state.players[0].score;
+  } catch (error) {
+    if (error instanceof ReplayError) throw new RejectedRunError(`replay failed: ${error.message}`);
+    throw error;
+  }
+}
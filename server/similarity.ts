@@ -0,0 +1,129 @@
+import fs from 'node:fs';
+import { cosineSimilarity } from '../services/vectorMath';
+import { parseWordVectors, normalizeWord, getWordVector } from '../services/wordVectors';
+import { WordNotInVocabularyError } from '../services/errors';
+import { STARTER_NOUNS } from '../data/starterNouns';
+import { buildWordVerdictPrompt, parseWordVerdict, WORD_VERDICT_SCHEMA, type WordVerdict } from '../services/wordVerdict';
+
+// 서버에서 쓰는 유사도 계산기입니다. 브라우저와 같은 모델/단어 벡터를 사용해야 점수가 일치합니다.
+//   SIMILARITY_PROVIDER=gemini (기본값): GEMINI_API_KEY 로 Gemini 임베딩을 직접 요청합니다.
+//   SIMILARITY_PROVIDER=local: WORD_VECTORS_PATH 의 .kwv 파일을 읽습니다.
+
+export interface ServerSimilarity {
+  calculateSimilarity(word1: string, word2: string): Promise<number>;
+  /**
+   * Checks that a word played in an online room is a real Korean noun, like the browser does. It doesn't score the word.
+   * Only Gemini can judge words; the local vectors turn away unknown words with WordNotInVocabularyError instead.
+   */
+  judgeWord?(previousWord: string, word: string): Promise<WordVerdict>;
+  getStartWord(): Promise<string>;
+}
+
+const EMBEDDING_MODEL = 'gemini-embedding-001';
+const GENERATION_MODEL = 'gemini-2.5-flash';
+
+function pickRandom<T>(items: T[]): T {
+  return items[Math.floor(Math.random() * items.length)];
+}
+
+function createGeminiSimilarity(apiKey: string): ServerSimilarity {
+  const embeddings = new Map<string, number[]>();
+
+  async function embed(words: string[]): Promise<number[][]> {
+    const missing = [...new Set(words.filter(word => !embeddings.has(word)))];
+    if (missing.length > 0) {
+      const response = await fetch(`https://generativelanguage.googleapis.com/v1beta/models/${EMBEDDING_MODEL}:batchEmbedContents`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'x-goog-api-key': apiKey },
+        body: JSON.stringify({
+          requests: missing.map(word => ({
+            model: `models/${EMBEDDING_MODEL}`,
+            content: { parts: [{ text: word }] },
+            taskType: 'SEMANTIC_SIMILARITY',
+          })),
+        }),
+      });
+      if (!response.ok) {
+        throw new Error(`Gemini embedding request failed: ${response.status} ${await response.text()}`);
+      }
+      const data = await response.json() as { embeddings?: { values?: unknown }[] };
+      missing.forEach((word, i) => {
+        const values = data?.embeddings?.[i]?.values;
+        if (!Array.isArray(values)) throw new Error('Invalid embedding response from Gemini');
+        embeddings.set(word, values);
+      });
+    }
+    return words.map(word => embeddings.get(word)!);
+  }
+
+  return {
+    async calculateSimilarity(word1, word2) {
+      const [a, b] = await embed([word1, word2]);
+      return cosineSimilarity(a, b);
+    },
+    async judgeWord(previousWord, word) {
+      const response = await fetch(`https://generativelanguage.googleapis.com/v1beta/models/${GENERATION_MODEL}:generateContent`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'x-goog-api-key': apiKey },
+        body: JSON.stringify({
+          contents: [{ parts: [{ text: buildWordVerdictPrompt(previousWord, word) }] }],
+          generationConfig: { responseMimeType: 'application/json', responseSchema: WORD_VERDICT_SCHEMA },
+        }),
+      });
+      if (!response.ok) {
+        throw new Error(`Gemini generateContent request failed: ${response.status} ${await response.text()}`);
+      }
+      const data = await response.json() as { candidates?: { content?: { parts?: { text?: unknown }[] } }[] };
+      const text = data.candidates?.[0]?.content?.parts?.[0]?.text;
+      let verdict: WordVerdict | null = null;
+      try {
+        verdict = typeof text === 'string' ? parseWordVerdict(JSON.parse(text)) : null;
+      } catch {
+        // Handled below like any other malformed answer.
+      }
+      if (!verdict) throw new Error('Invalid word verdict from Gemini');
+      return verdict;
+    },
+    async getStartWord() {
+      return pickRandom(STARTER_NOUNS);
+    },
+  };
+}
+
+function createLocalSimilarity(path: string): ServerSimilarity {
+  if (!fs.existsSync(path)) {
+    throw new Error(`Word vector file not found at ${path}. Build it with 'npm run build:vectors' in the project root, or set WORD_VECTORS_PATH.`);
+  }
+  const file = fs.readFileSync(path);
+  const table = parseWordVectors(file.buffer.slice(file.byteOffset, file.byteOffset + file.byteLength) as ArrayBuffer);
+
+  const lookup = (word: string) => {
+    const vector = getWordVector(table, normalizeWord(word));
+    if (!vector) throw new WordNotInVocabularyError(word);
+    return vector;
+  };
+
+  return {
+    async calculateSimilarity(word1, word2) {
+      return cosineSimilarity(lookup(word1), lookup(word2));
+    },
+    async getStartWord() {
+      const candidates = STARTER_NOUNS.filter(word => table.index.has(normalizeWord(word)));
+      return pickRandom(candidates.length > 0 ? candidates : table.words);
+    },
+  };
+}
+
+/**
+ * Creates the similarity calculator configured by environment variables.
+ */
+export function createServerSimilarity(): ServerSimilarity {
+  if (process.env.SIMILARITY_PROVIDER === 'local') {
+    return createLocalSimilarity(process.env.WORD_VECTORS_PATH || '../public/word-vectors/ko.kwv');
+  }
+  const apiKey = process.env.GEMINI_API_KEY;
+  if (!apiKey) {
+    throw new Error('GEMINI_API_KEY is required unless SIMILARITY_PROVIDER=local');
+  }
+  return createGeminiSimilarity(apiKey);
+}
@@ -0,0 +1,197 @@
+import { getLeaderboardDifficultyKey } from './leaderboardRanking';
+import { getDailyStatus } from './dailyChallengeService';
+import { PREDEFINED_DIFFICULTIES, TIMEOUT_WORD, type GameEngine, type GameEngineState, type PlayerState } from '../engine/gameEngine';
+import type { Difficulty, GameAttempt, GameMode } from '../types';
+
+// 게임 이벤트와 시도 기록으로 업적을 판정하고, 플레이어 이름별로 localStorage에 저장합니다.
+// 업적을 달성하면 구독자에게 알려, 화면에 알림을 띄우고 효과음을 재생할 수 있게 합니다.
+
+const ACHIEVEMENTS_KEY = 'achievements';
+const HARD_DIFFICULTY_KEY = getLeaderboardDifficultyKey(PREDEFINED_DIFFICULTIES[2]);
+
+export type AchievementId =
+  | 'firstGame'
+  | 'hardChain'
+  | 'perfectMatch'
+  | 'noTimeouts'
+  | 'longJourney'
+  | 'comeback'
+  | 'bridgeBuilder'
+  | 'dailyStreak';
+
+export interface Achievement {
+  id: AchievementId;
+  icon: string;
+  title: string;
+  description: string;
+}
+
+export const ACHIEVEMENTS: Achievement[] = [
+  { id: 'firstGame', icon: '🎉', title: '첫 발걸음', description: '게임을 처음으로 끝까지 플레이하기' },
+  { id: 'hardChain', icon: '⛓️', title: '어려움 정복', description: '어려움 난이도에서 한 게임에 단어 10개 잇기' },
+  { id: 'perfectMatch', icon: '🎯', title: '찰떡궁합', description: '유사도 95% 이상인 단어로 잇기' },
+  { id: 'noTimeouts', icon: '⏱️', title: '시간 지킴이', description: '시간 초과 없이 단어를 5번 이상 내고 게임 끝내기' },
+  { id: 'longJourney', icon: '🧭', title: '머나먼 여정', description: '종합 유사도 10% 미만까지 멀어지기' },
+  { id: 'comeback', icon: '💪', title: '벼랑 끝 역전', description: '기회가 1개 남은 상태에서 단어 3개 연속 잇기' },
+  { id: 'bridgeBuilder', icon: '🌉', title: '다리 건설가', description: '징검다리 퍼즐 완성하기' },
+  { id: 'dailyStreak', icon: '🔥', title: '일주일 개근', description: '오늘의 도전 7일 연속 참여하기' },
+];
+
+const PERFECT_SIMILARITY = 0.95;
+const HARD_CHAIN_LENGTH = 10;
+const MIN_ATTEMPTS_WITHOUT_TIMEOUT = 5;
+const LONG_JOURNEY_SIMILARITY = 0.1;
+const COMEBACK_STREAK = 3;
+const DAILY_STREAK = 7;
+
+/** 플레이어 이름별로, 각 업적을 달성한 시각(epoch 밀리초)입니다. */
+type AchievementStore = Record<string, Partial<Record<AchievementId, number>>>;
+
+export type AchievementListener = (achievement: Achievement, playerName: string) => void;
+
+const listeners = new Set<AchievementListener>();
+
+function readStore(): AchievementStore {
+  try {
+    const raw = localStorage.getItem(ACHIEVEMENTS_KEY);
+    const store = raw ? JSON.parse(raw) : {};
+    return store && typeof store === 'object' ? store : {};
+  } catch (error) {
+    console.error("Error reading achievements:", error);
+    return {};
+  }
+}
+
+/**
+ * 업적을 저장할 플레이어 이름을 반환합니다. 혼자 하는 게임은 이 기기에서 마지막으로 쓴 이름으로 저장합니다.
+ */
+function getPlayerName(player: PlayerState): string {
+  return player.name || localStorage.getItem('localPlayerName') || '나';
+}
+
+/**
+ * 업적을 달성한 것으로 저장하고 구독자에게 알립니다. 이미 달성한 업적이면 아무것도 하지 않습니다.
+ * @param id 달성한 업적
+ * @param playerName 달성한 플레이어
+ */
+function unlock(id: AchievementId, playerName: string): void {
+  const store = readStore();
+  const unlocked = store[playerName] ?? {};
+  if (unlocked[id]) return;
+  store[playerName] = { ...unlocked, [id]: Date.now() };
+  localStorage.setItem(ACHIEVEMENTS_KEY, JSON.stringify(store));
+  const achievement = ACHIEVEMENTS.find(candidate => candidate.id === id)!;
+  listeners.forEach(listener => listener(achievement, playerName));
+}
+
+/**
+ * 플레이어가 달성한 업적과 달성 시각을 반환합니다.
+ * @param playerName 플레이어 이름
+ */
+export function getUnlockedAchievements(playerName: string): Partial<Record<AchievementId, number>> {
+  return readStore()[playerName] ?? {};
+}
+
+/**
+ * 이 기기에서 업적을 하나 이상 달성한 플레이어 이름을 반환합니다.
+ */
+export function getAchievementPlayers(): string[] {
+  return Object.keys(readStore());
+}
+
+/**
+ * 업적 달성을 구독합니다.
+ * @param listener 업적을 달성할 때마다 호출됩니다.
+ * @returns 구독 해제 함수
+ */
+export function onAchievementUnlocked(listener: AchievementListener): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+/** 플레이어가 한 시도만 골라냅니다. 혼자 하는 게임은 모든 시도가 그 플레이어의 것입니다. */
+function getPlayerAttempts(state: GameEngineState, player: PlayerState): GameAttempt[] {
+  return state.players.length > 1 ? state.history.filter(attempt => attempt.author === player.name) : state.history;
+}
+
+/**
+ * 게임 이벤트를 보며 업적을 판정합니다. 서버가 진행하는 온라인 게임은 이 기기의 플레이어를 알 수 없으므로 판정하지 않습니다.
+ * @param engine 지켜볼 게임 엔진
+ * @returns 판정 중지 함수
+ */
+export function attachAchievements(engine: GameEngine): () => void {
+  // Words chained in a row since each player fell to their last life.
+  let lastLifeStreaks = new Map<string, number>();
+
+  return engine.onEvent((event, state) => {
+    if (state.mode === 'online' || !state.difficulty) return;
+    const { difficulty } = state;
+
+    switch (event.type) {
+      case 'gameStarted':
+        lastLifeStreaks = new Map();
+        break;
+      case 'wordAccepted': {
+        const player = state.players.find(candidate => candidate.name === (event.attempt.author ?? ''));
+        if (!player || player.isComputer) break;
+        const name = getPlayerName(player);
+        if (difficulty.rules.direction === 'similar' && event.attempt.similarity >= PERFECT_SIMILARITY) {
+          unlock('perfectMatch', name);
+        }
+        if (getLeaderboardDifficultyKey(difficulty) === HARD_DIFFICULTY_KEY
+          && getPlayerAttempts(state, player).filter(attempt => attempt.success).length >= HARD_CHAIN_LENGTH) {
+          unlock('hardChain', name);
+        }
+        const streak = lastLifeStreaks.get(player.name);
+        if (streak !== undefined) {
+          lastLifeStreaks.set(player.name, streak + 1);
+          if (streak + 1 >= COMEBACK_STREAK) unlock('comeback', name);
+        }
+        break;
+      }
+      case 'wordFailed':
+      case 'timedOut': {
+        // A miss restarts the streak, and a player down to one life starts one.
+        const name = event.attempt.author ?? '';
+        if (event.livesLeft === 1) {
+          lastLifeStreaks.set(name, 0);
+        } else {
+          lastLifeStreaks.delete(name);
+        }
+        break;
+      }
+      case 'bridgeCompleted':
+        unlock('bridgeBuilder', getPlayerName(state.players[0]));
+        break;
+      case 'gameOver':
+        for (const player of state.players) {
+          if (player.isComputer) continue;
+          const name = getPlayerName(player);
+          const attempts = getPlayerAttempts(state, player);
+          unlock('firstGame', name);
+          if (attempts.length >= MIN_ATTEMPTS_WITHOUT_TIMEOUT && attempts.every(attempt => attempt.newWord !== TIMEOUT_WORD)) {
+            unlock('noTimeouts', name);
+          }
+          if (state.mode === 'daily' && getDailyStatus().streak >= DAILY_STREAK) {
+            unlock('dailyStreak', name);
+          }
+        }
+        break;
+    }
+  });
+}
+
+/**
+ * 게임이 끝난 뒤 계산한 종합 유사도(첫 단어와 마지막 단어의 유사도)로 업적을 판정합니다.
+ * 여러 사람이 함께 이은 사슬은 한 사람의 것이 아니므로 혼자 한 게임만 판정하며,
+ * 한 걸음만에도 멀어질 수 있는 멀어지기 모드는 제외합니다.
+ * @param similarity 종합 유사도
+ * @param game 끝난 게임
+ */
+export function checkFinalSimilarityAchievements(similarity: number, game: { mode: GameMode; difficulty: Difficulty; players: PlayerState[] }): void {
+  const { mode, difficulty, players } = game;
+  if (mode === 'online' || players.length !== 1 || difficulty.rules.direction !== 'similar') return;
+  if (similarity < LONG_JOURNEY_SIMILARITY) {
+    unlock('longJourney', getPlayerName(players[0]));
+  }
+}
@@ -0,0 +1,58 @@
+import { getThresholdMargin, type GameEngineState } from '../engine/gameEngine';
+import { findWordCandidates, type WordCandidate } from './wordCandidates';
+
+// 컴퓨터 상대는 유사도 제공자에게 후보 단어를 받아 점수를 매긴 뒤,
+// 강도에 따라 목표 유사도를 살짝 넘기는 단어부터 가장 유사한 단어까지 골라 냅니다.
+
+export type AiStrengthId = 'easy' | 'normal' | 'hard' | 'ruthless';
+
+export interface AiStrength {
+  id: AiStrengthId;
+  name: string;
+  /**
+   * How far past the threshold the opponent aims. Null means it always plays the word that clears it by the most.
+   */
+  margin: number | null;
+  /** Chance of playing a random candidate instead, which may fall short of the threshold. */
+  mistakeRate: number;
+}
+
+export const AI_STRENGTHS: AiStrength[] = [
+  { id: 'easy', name: '쉬움', margin: 0, mistakeRate: 0.3 },
+  { id: 'normal', name: '보통', margin: 0.05, mistakeRate: 0.1 },
+  { id: 'hard', name: '어려움', margin: 0.15, mistakeRate: 0 },
+  { id: 'ruthless', name: '무자비', margin: null, mistakeRate: 0 },
+];
+
+/** How many related words the opponent considers on each turn. */
+const CANDIDATE_COUNT = 20;
+
+/**
+ * Returns the strength with the given id, falling back to normal.
+ */
+export function getAiStrength(id: AiStrengthId): AiStrength {
+  return AI_STRENGTHS.find(strength => strength.id === id) ?? AI_STRENGTHS[1];
+}
+
+/**
+ * Picks the computer's next word against the current threshold.
+ * @param signal Cancels the requests, e.g. when the computer's turn ends.
+ * @returns The chosen word and its similarity, or null if no candidate could be scored.
+ */
+export async function chooseAiMove(state: GameEngineState, strength: AiStrength, signal?: AbortSignal): Promise<WordCandidate | null> {
+  const scored = await findWordCandidates(state, CANDIDATE_COUNT, signal);
+  if (scored.length === 0) return null;
+
+  const margin = (move: WordCandidate) =>
+    getThresholdMargin(move.similarity, state.currentThreshold, state.difficulty!.rules.direction);
+  const best = scored.reduce((a, b) => (margin(b) > margin(a) ? b : a));
+  if (Math.random() < strength.mistakeRate) {
+    return scored[Math.floor(Math.random() * scored.length)];
+  }
+  if (strength.margin === null) return best;
+
+  const passing = scored.filter(move => margin(move) >= 0);
+  if (passing.length === 0) return best;
+  const target = strength.margin;
+  return passing.reduce((a, b) => (Math.abs(margin(b) - target) < Math.abs(margin(a) - target) ? b : a));
+}
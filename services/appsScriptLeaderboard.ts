@@ -0,0 +1,116 @@
+import { DEFAULT_LEADERBOARD_SIZE, type LeaderboardEntry, type LeaderboardPage, type LeaderboardProvider, type LeaderboardQuery, type LeaderboardScope, type ScoreSubmission } from './leaderboardProvider';
+import { filterEntries, pageEntries, rankOf } from './leaderboardRanking';
+
+// Google Apps Script를 웹 앱으로 배포한 후 얻게 되는 URL입니다.
+// .env.local의 APPS_SCRIPT_URL로 바꿀 수 있으며, 설정하지 않으면 기존 배포의 공용 리더보드를 씁니다.
+const DEFAULT_APPS_SCRIPT_URL = 'https://script.google.com/macros/s/AKfycbyAzZVi1jzHV-ibXgF_nZLUOqL3OOkqiHYXWRBy4pDPsOjJvMY4zwZpkZV2YZXazAReDA/exec';
+const APPS_SCRIPT_URL = process.env.APPS_SCRIPT_URL || DEFAULT_APPS_SCRIPT_URL;
+
+/**
+ * Apps Script 쿼리 파라미터를 만듭니다. 일반 리더보드는 board 파라미터 없이 조회합니다.
+ * @param scope 조회할 보드, 날짜, 난이도
+ */
+function toParams(scope: Pick<LeaderboardScope, 'board' | 'date' | 'difficulty'>): Record<string, string> {
+  const params: Record<string, string> = {};
+  if (scope.board !== 'classic') params.board = scope.board;
+  if (scope.date) params.date = scope.date;
+  if (scope.difficulty) params.difficulty = scope.difficulty;
+  return params;
+}
+
+/**
+ * Apps Script에서 리더보드 데이터를 가져옵니다.
+ * @param scope 조회할 보드
+ */
+async function fetchEntries(scope: LeaderboardScope): Promise<LeaderboardEntry[]> {
+  if (!APPS_SCRIPT_URL) {
+    console.warn("Apps Script URL is not configured. Leaderboard will not be available.");
+    // URL이 없는 경우에도 앱이 작동하도록 빈 배열을 반환합니다.
+    return [];
+  }
+  
+  try {
+    const queryString = new URLSearchParams(toParams(scope)).toString();
+    // CORS 오류를 피하기 위해 GET 요청에서 불필요한 'Content-Type' 헤더를 제거했습니다.
+    // GET 요청은 본문(body)이 없으므로 해당 헤더는 문제를 유발할 수 있습니다.
+    const response = await fetch(queryString ? `${APPS_SCRIPT_URL}?${queryString}` : APPS_SCRIPT_URL, {
+        method: 'GET',
+        redirect: 'follow', // Apps Script는 GET 요청 시 리다이렉션을 수행할 수 있습니다.
+    });
+    
+    if (!response.ok) {
+        // 더 나은 디버깅을 위해 상태 코드와 텍스트를 포함합니다.
+        throw new Error(`Failed to fetch leaderboard: ${response.status} ${response.statusText}`);
+    }
+    
+    const data = await response.json();
+    // 스크립트가 난이도나 시각을 저장하지 않는 경우에도 걸러낼 수 있도록 브라우저에서 한 번 더 정리합니다.
+    return filterEntries(data.leaderboard as LeaderboardEntry[], scope.board === 'daily' ? { difficulty: scope.difficulty } : scope);
+
+  } catch (error) {
+    console.error("Error fetching leaderboard:", error);
+    // 여기서 발생한 오류는 네트워크 문제(CORS 등)일 가능성이 높습니다.
+    throw new Error('리더보드 데이터를 가져오는 데 실패했습니다. 네트워크 연결 또는 CORS 설정을 확인하세요.');
+  }
+}
+
+/**
+ * Apps Script에 점수를 제출합니다.
+ * @param submission 제출할 점수 데이터
+ */
+async function submitScore(submission: ScoreSubmission): Promise<void> {
+    if (!APPS_SCRIPT_URL) {
+        throw new Error("Apps Script URL is not configured. Cannot submit score.");
+    }
+
+    // id lets a script skip submissions it has already recorded, since failed submissions are retried.
+    const { id, name, score } = submission;
+    const payload = { ...toParams(submission), id, name, score };
+
+    try {
+        // POST 요청은 'text/plain' Content-Type을 사용하여 CORS preflight 요청을 피합니다.
+        // 이것은 Google Apps Script와 통신할 때 일반적인 패턴입니다.
+        const response = await fetch(APPS_SCRIPT_URL, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'text/plain;charset=utf-8',
+            },
+            body: JSON.stringify(payload),
+            mode: 'cors',
+        });
+
+        if (!response.ok) {
+            throw new Error(`Failed to submit score: ${response.status} ${response.statusText}`);
+        }
+
+        const result = await response.json();
+        if (result.status !== 'success') {
+            throw new Error(result.message || 'An unknown error occurred during score submission.');
+        }
+
+    } catch (error) {
+        console.error("Error submitting score:", error);
+        throw new Error('점수 제출에 실패했습니다. 네트워크 연결 또는 CORS 설정을 확인하세요.');
+    }
+}
+
+/**
+ * 기존 Google Apps Script 웹 앱에 점수를 저장하는 리더보드입니다.
+ * 응답은 `{ leaderboard: [...] }` 형태를 가정합니다. 스크립트가 돌려준 항목 안에서만
+ * 쪽 나누기와 순위 계산을 하므로, 목록 밖의 순위는 알 수 없습니다.
+ */
+export const appsScriptLeaderboardProvider: LeaderboardProvider = {
+  id: 'apps-script',
+
+  async fetchLeaderboard({ offset = 0, limit = DEFAULT_LEADERBOARD_SIZE, ...scope }: LeaderboardQuery): Promise<LeaderboardPage> {
+    return pageEntries(await fetchEntries(scope), offset, limit);
+  },
+
+  async fetchRank(scope, score) {
+    const entries = await fetchEntries(scope);
+    const rank = rankOf(entries, score);
+    return rank <= entries.length ? rank : null;
+  },
+
+  submitScore,
+};
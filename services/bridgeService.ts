@@ -0,0 +1,77 @@
+import type { Difficulty } from '../types';
+import { DEFAULT_GAME_RULES } from '../engine/gameEngine';
+import { getSimilarityProvider } from './similarityProvider';
+import { pickUnrelatedNouns, type WordCandidate } from './wordCandidates';
+
+// 다리 놓기 모드: 시작 단어에서 출발해, 단계마다 목표 유사도를 넘는 단어로 이어 가다가
+// 목적지 단어와 충분히 가까운 단어에 도착하면 완성됩니다. 걸음 수와 시간이 적을수록 점수가 높습니다.
+
+export interface BridgeLevel {
+  /** Each step must meet the difficulty's threshold, which stays fixed for the whole puzzle. */
+  difficulty: Difficulty;
+  /** Similarity to the target that completes the bridge. */
+  goalSimilarity: number;
+}
+
+const BRIDGE_RULES = { ...DEFAULT_GAME_RULES, thresholdStep: 0, failurePenalty: 0 };
+
+export const BRIDGE_LEVELS: BridgeLevel[] = [
+  { difficulty: { name: '다리 쉬움', threshold: 0.3, multiplier: 0.5, rules: BRIDGE_RULES }, goalSimilarity: 0.6 },
+  { difficulty: { name: '다리 보통', threshold: 0.4, multiplier: 1.0, rules: BRIDGE_RULES }, goalSimilarity: 0.7 },
+  { difficulty: { name: '다리 어려움', threshold: 0.5, multiplier: 2.0, rules: BRIDGE_RULES }, goalSimilarity: 0.8 },
+];
+
+/** How many target candidates are compared to find one far from the start word. */
+const TARGET_SAMPLE_SIZE = 8;
+
+export interface BridgePuzzle {
+  startWord: string;
+  targetWord: string;
+  /** Similarity between the start and target words. */
+  similarityToTarget: number;
+}
+
+/** How far below the goal the start word must be, so the puzzle is never solved by its first step. */
+const GOAL_MARGIN = 0.2;
+/** How many start words are tried before giving up on a puzzle that is far enough apart. */
+const MAX_PUZZLE_ATTEMPTS = 3;
+
+/**
+ * Picks a start word and the least similar of a random sample of curated nouns as its target.
+ * Returns null if none of the sample could be scored.
+ */
+async function pickPuzzle(): Promise<BridgePuzzle | null> {
+  const provider = getSimilarityProvider();
+  const startWord = await provider.getStartWord();
+  const sample = pickUnrelatedNouns(TARGET_SAMPLE_SIZE + 1)
+    .filter(word => word !== startWord)
+    .slice(0, TARGET_SAMPLE_SIZE);
+
+  const scored = await Promise.all(sample.map(async (word): Promise<WordCandidate | null> => {
+    try {
+      return { word, similarity: await provider.calculateSimilarity(startWord, word) };
+    } catch (error) {
+      console.warn(`Could not score the bridge target '${word}':`, error);
+      return null;
+    }
+  }));
+  const candidates = scored.filter((candidate): candidate is WordCandidate => candidate !== null);
+  if (candidates.length === 0) return null;
+
+  const target = candidates.reduce((a, b) => (b.similarity < a.similarity ? b : a));
+  return { startWord, targetWord: target.word, similarityToTarget: target.similarity };
+}
+
+/**
+ * Picks a start word and a distant target word for a new bridge puzzle.
+ * The start word must be clearly below the level's goal similarity, so the bridge takes a few steps;
+ * otherwise another start word is tried.
+ * @param goalSimilarity Similarity to the target that completes the bridge at the chosen level.
+ */
+export async function createBridgePuzzle(goalSimilarity: number): Promise<BridgePuzzle> {
+  for (let attempt = 0; attempt < MAX_PUZZLE_ATTEMPTS; attempt++) {
+    const puzzle = await pickPuzzle();
+    if (puzzle && puzzle.similarityToTarget <= goalSimilarity - GOAL_MARGIN) return puzzle;
+  }
+  throw new Error('다리 놓기 목적지 단어를 정하지 못했습니다. 다시 시도해주세요.');
+}
@@ -0,0 +1,108 @@
+import type { Difficulty } from '../types';
+import { DEFAULT_GAME_RULES } from '../engine/gameEngine';
+import { STARTER_NOUNS } from '../data/starterNouns';
+
+// '오늘의 도전' 모드: 한국 시간(KST) 기준으로 하루에 한 번, 모두가 같은 시작 단어와 규칙으로 도전합니다.
+
+const DAILY_STATUS_KEY = 'dailyChallenge';
+const KST_OFFSET_MS = 9 * 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** 오늘의 도전에 모두가 똑같이 적용되는 규칙입니다. */
+export const DAILY_DIFFICULTY: Difficulty = {
+  name: '오늘의 도전',
+  threshold: 0.5,
+  multiplier: 1.0,
+  rules: DEFAULT_GAME_RULES,
+};
+
+export interface DailyChallengeStatus {
+  /** 마지막으로 도전한 날짜 (KST, YYYY-MM-DD) */
+  lastPlayedDate: string | null;
+  /** 마지막 도전의 점수. 도전이 끝나기 전이면 null */
+  lastScore: number | null;
+  /** 연속으로 도전한 일수 */
+  streak: number;
+  bestStreak: number;
+}
+
+/**
+ * 주어진 시각의 KST 날짜를 YYYY-MM-DD 형식으로 반환합니다.
+ */
+export function getKstDateKey(date: Date = new Date()): string {
+  return new Date(date.getTime() + KST_OFFSET_MS).toISOString().slice(0, 10);
+}
+
+/**
+ * 문자열 시드로 0 이상 1 미만의 결정적인 난수를 만듭니다 (FNV-1a 해시 + mulberry32).
+ */
+function seededRandom(seed: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  let t = (hash + 0x6d2b79f5) | 0;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+}
+
+/**
+ * 해당 날짜의 시작 단어를 큐레이션 목록에서 결정적으로 고릅니다.
+ * @param dateKey KST 날짜 (YYYY-MM-DD)
+ */
+export function getDailyStartWord(dateKey: string): string {
+  return STARTER_NOUNS[Math.floor(seededRandom(`daily:${dateKey}`) * STARTER_NOUNS.length)];
+}
+
+/**
+ * 이 기기의 오늘의 도전 기록을 가져옵니다. 기록이 없으면 빈 기록을 반환합니다.
+ */
+export function getDailyStatus(): DailyChallengeStatus {
+  try {
+    const raw = localStorage.getItem(DAILY_STATUS_KEY);
+    if (raw) return JSON.parse(raw);
+  } catch (error) {
+    console.error("Error reading daily challenge status:", error);
+  }
+  return { lastPlayedDate: null, lastScore: null, streak: 0, bestStreak: 0 };
+}
+
+function saveDailyStatus(status: DailyChallengeStatus): void {
+  localStorage.setItem(DAILY_STATUS_KEY, JSON.stringify(status));
+}
+
+/**
+ * 오늘 이미 도전했는지 확인합니다. 이 기기에서는 하루에 한 번만 점수가 인정됩니다.
+ */
+export function hasPlayedToday(): boolean {
+  return getDailyStatus().lastPlayedDate === getKstDateKey();
+}
+
+/**
+ * 도전 시작을 기록하고 연속 도전 일수를 갱신합니다.
+ * 게임을 시작하는 순간 기록하므로, 중간에 그만두고 다시 도전할 수 없습니다.
+ * @param dateKey 도전한 날짜 (KST)
+ */
+export function markDailyAttemptStarted(dateKey: string): DailyChallengeStatus {
+  const status = getDailyStatus();
+  // 날짜 문자열은 UTC 자정으로 해석되므로 하루를 빼도 날짜만 바뀝니다.
+  const yesterday = new Date(Date.parse(dateKey) - DAY_MS).toISOString().slice(0, 10);
+  const streak = status.lastPlayedDate === yesterday ? status.streak + 1 : 1;
+  const next: DailyChallengeStatus = {
+    lastPlayedDate: dateKey,
+    lastScore: null,
+    streak,
+    bestStreak: Math.max(status.bestStreak, streak),
+  };
+  saveDailyStatus(next);
+  return next;
+}
+
+/**
+ * 오늘의 도전 결과 점수를 기록합니다.
+ */
+export function recordDailyScore(score: number): void {
+  saveDailyStatus({ ...getDailyStatus(), lastScore: score });
+}
@@ -0,0 +1,110 @@
+/**
+ * 유사도 제공자의 사전에 없는 단어일 때 던집니다.
+ * 제공자의 고장이 아니라 플레이어가 모르는 단어를 입력한, 게임의 정상적인 결과입니다.
+ */
+export class WordNotInVocabularyError extends Error {
+  constructor(public readonly word: string) {
+    super(`'${word}'은(는) 사전에 없는 단어입니다. 다른 단어를 입력해주세요.`);
+    this.name = 'WordNotInVocabularyError';
+  }
+}
+
+/**
+ * 리더보드가 점수를 거절했을 때 던집니다. 예를 들어 게임 기록 검증에 실패한 경우입니다.
+ * 같은 점수를 다시 보내도 거절되므로 재시도하지 않습니다.
+ */
+export class ScoreRejectedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ScoreRejectedError';
+  }
+}
+
+/**
+ * 실패한 Gemini API 요청의 기본 오류입니다. `status`는 API가 응답한 경우의 HTTP 상태 코드이고,
+ * `retryAfterSeconds`는 API가 다시 시도하기 전에 기다리라고 한 시간입니다.
+ */
+export class GeminiError extends Error {
+  constructor(message: string, public readonly status?: number, public readonly retryAfterSeconds?: number) {
+    super(message);
+    this.name = 'GeminiError';
+  }
+}
+
+/**
+ * 재시도를 모두 마친 뒤에도 Gemini가 429로 응답할 때 던집니다. API 키의 할당량이나 요청 한도를 다 쓴 경우입니다.
+ */
+export class GeminiQuotaError extends GeminiError {
+  constructor(message: string, retryAfterSeconds?: number) {
+    super(message, 429, retryAfterSeconds);
+    this.name = 'GeminiQuotaError';
+  }
+}
+
+/**
+ * Gemini에 닿지 못했을 때 던집니다. 연결이 실패했거나, 요청 시간이 초과됐거나,
+ * 재시도를 모두 마친 뒤에도 서버 오류가 계속된 경우입니다.
+ */
+export class GeminiNetworkError extends GeminiError {
+  constructor(message: string, status?: number, retryAfterSeconds?: number) {
+    super(message, status, retryAfterSeconds);
+    this.name = 'GeminiNetworkError';
+  }
+}
+
+/**
+ * Gemini가 안전 필터 때문에 답하지 않았을 때 던집니다.
+ */
+export class GeminiSafetyBlockError extends GeminiError {
+  constructor(public readonly reason: string) {
+    super(`Gemini blocked the response: ${reason}`);
+    this.name = 'GeminiSafetyBlockError';
+  }
+}
+
+/**
+ * Gemini의 응답이 JSON이 아니거나 요청한 내용이 빠져 있을 때 던집니다.
+ */
+export class GeminiParseError extends GeminiError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'GeminiParseError';
+  }
+}
+
+/**
+ * 호출한 쪽이 요청을 취소했을 때 던집니다. 예를 들어 요청이 속한 게임을 다시 시작한 경우입니다.
+ * 실패가 아니므로 플레이어에게 보여주지 않습니다.
+ */
+export class RequestCancelledError extends Error {
+  constructor() {
+    super('The request was cancelled');
+    this.name = 'RequestCancelledError';
+  }
+}
+
+/**
+ * 오류를 플레이어에게 보여줄 메시지로 바꿉니다.
+ * @param error 발생한 오류
+ * @param fallback 알 수 없는 오류일 때 보여줄 메시지
+ * @returns 화면에 보여줄 메시지
+ */
+export function getErrorMessage(error: unknown, fallback: string): string {
+  if (error instanceof GeminiQuotaError) {
+    return '요청이 너무 많아 AI가 잠시 쉬고 있어요. 1분쯤 뒤에 다시 시도해주세요.';
+  }
+  if (error instanceof GeminiNetworkError) {
+    return 'AI 서버에 연결하지 못했어요. 인터넷 연결을 확인하고 다시 시도해주세요.';
+  }
+  if (error instanceof GeminiSafetyBlockError) {
+    return '안전 정책 때문에 AI가 이 요청에 답하지 않았어요. 다른 단어로 시도해주세요.';
+  }
+  if (error instanceof GeminiParseError) {
+    return 'AI 서버의 응답을 이해하지 못했어요. 다시 시도해주세요.';
+  }
+  if (error instanceof GeminiError) {
+    return `AI 서버가 요청을 거절했어요.${error.status ? ` (오류 ${error.status})` : ''}`;
+  }
+  // 사전에 없는 단어 같은 나머지 오류에는 이미 플레이어에게 보여줄 메시지가 들어 있습니다.
+  return error instanceof Error && error.message ? error.message : fallback;
+}
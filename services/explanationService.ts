@@ -0,0 +1,158 @@
+import type { GameAttempt } from '../types';
+import { TIMEOUT_WORD } from '../engine/gameEngine';
+import { getSimilarityProvider } from './similarityProvider';
+import { getExplainedAttempts, saveAttemptExplanation } from './gameStatsService';
+import { RequestCancelledError } from './errors';
+
+// 게임 기록의 각 시도에 대해 두 단어가 왜 그런 유사도를 받았는지 설명을 가져옵니다.
+// 설명은 플레이어가 요청할 때만 가져오며, 가까운 시도 몇 개를 한 요청으로 묶고,
+// 요청은 한 번에 하나씩 보냅니다. 가져온 설명은 게임 기록의 시도에 붙여 저장하므로 새로고침한 뒤에도 다시 묻지 않습니다.
+
+/** Attempts explained per request. */
+const BATCH_SIZE = 5;
+/** How long to wait for more attempts before sending a batch. */
+const BATCH_DELAY_MS = 50;
+
+const SIMILARITY_BANDS: { min: number; text: string }[] = [
+  { min: 0.7, text: '거의 같은 뜻이거나 늘 함께 쓰이는 아주 가까운 사이예요' },
+  { min: 0.5, text: '같은 주제나 상황에서 자주 함께 쓰이는 가까운 사이예요' },
+  { min: 0.3, text: '관련은 있지만 쓰이는 맥락이 꽤 달라요' },
+  { min: -Infinity, text: '함께 쓰이는 일이 드물어 거리가 먼 사이예요' },
+];
+
+interface PendingExplanation {
+  attempt: GameAttempt;
+  resolve: (explanation: string) => void;
+  reject: (error: unknown) => void;
+  /** Aborted once the player has left the screen that asked. */
+  signal?: AbortSignal;
+}
+
+// Explanations asked for in this session, including ones still on their way.
+const explanations = new Map<string, Promise<string>>();
+// Explanations saved in the game records, read once and kept up to date as new ones are saved.
+let recordedExplanations: Map<string, string> | null = null;
+let queue: PendingExplanation[] = [];
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+// Batches are sent one after another, never side by side.
+let sending: Promise<void> = Promise.resolve();
+
+const getKey = (attempt: GameAttempt): string => `${attempt.previousWord}|${attempt.newWord}`;
+
+function getRecordedExplanations(): Map<string, string> {
+  recordedExplanations ??= new Map(getExplainedAttempts().map(attempt => [getKey(attempt), attempt.explanation!]));
+  return recordedExplanations;
+}
+
+function recordExplanation(attempt: GameAttempt, explanation: string): void {
+  saveAttemptExplanation(attempt, explanation);
+  getRecordedExplanations().set(getKey(attempt), explanation);
+}
+
+/**
+ * The explanation for providers that can't explain pairs, such as the offline word vectors.
+ */
+function describeFromSimilarity(attempt: GameAttempt): string {
+  const band = SIMILARITY_BANDS.find(candidate => attempt.similarity >= candidate.min)!;
+  return `오프라인 모드에서는 자세한 설명을 볼 수 없어요. 단어 벡터로 보면 '${attempt.previousWord}'와(과) '${attempt.newWord}'은(는) ${band.text}.`;
+}
+
+/**
+ * A signal that aborts once every one of the given signals has, so a batch is only cancelled when no one still wants it.
+ * Call release once the batch has settled, to stop listening to the given signals.
+ */
+function whenAllAborted(signals: (AbortSignal | undefined)[]): { signal?: AbortSignal; release: () => void } {
+  if (signals.some(signal => !signal)) return { release: () => {} };
+  const distinct = new Set(signals as AbortSignal[]);
+  const controller = new AbortController();
+  let remaining = distinct.size;
+  const onAbort = () => {
+    if (--remaining === 0) controller.abort();
+  };
+  distinct.forEach(signal => signal.addEventListener('abort', onAbort, { once: true }));
+  return {
+    signal: controller.signal,
+    release: () => distinct.forEach(signal => signal.removeEventListener('abort', onAbort)),
+  };
+}
+
+async function sendBatch(queued: PendingExplanation[]): Promise<void> {
+  const batch = queued.filter(pending => {
+    if (pending.signal?.aborted) pending.reject(new RequestCancelledError());
+    return !pending.signal?.aborted;
+  });
+  if (batch.length === 0) return;
+  const cancellation = whenAllAborted(batch.map(pending => pending.signal));
+  try {
+    const provider = getSimilarityProvider();
+    const attempts = batch.map(pending => pending.attempt);
+    if (!provider.explainPairs) {
+      batch.forEach(pending => pending.resolve(describeFromSimilarity(pending.attempt)));
+      return;
+    }
+    const pairs = attempts.map(({ previousWord, newWord, similarity }) => ({ word1: previousWord, word2: newWord, similarity }));
+    const texts = await provider.explainPairs(pairs, cancellation.signal);
+    batch.forEach((pending, i) => {
+      recordExplanation(pending.attempt, texts[i]);
+      pending.resolve(texts[i]);
+    });
+  } catch (error) {
+    if (!(error instanceof RequestCancelledError)) console.error("Failed to explain word pairs:", error);
+    batch.forEach(pending => pending.reject(error));
+  } finally {
+    cancellation.release();
+  }
+}
+
+function flush(): void {
+  flushTimer = null;
+  const pending = queue;
+  queue = [];
+  for (let i = 0; i < pending.length; i += BATCH_SIZE) {
+    const batch = pending.slice(i, i + BATCH_SIZE);
+    sending = sending.then(() => sendBatch(batch));
+  }
+}
+
+function enqueue(attempt: GameAttempt, signal?: AbortSignal): Promise<string> {
+  const key = getKey(attempt);
+  let explanation = explanations.get(key);
+  if (!explanation) {
+    const recorded = attempt.explanation ?? getRecordedExplanations().get(key);
+    if (recorded) return Promise.resolve(recorded);
+    explanation = new Promise<string>((resolve, reject) => queue.push({ attempt, resolve, reject, signal }));
+    // A failed or cancelled explanation can be asked for again.
+    explanation.catch(() => explanations.delete(key));
+    explanations.set(key, explanation);
+    flushTimer ??= setTimeout(flush, BATCH_DELAY_MS);
+  }
+  return explanation;
+}
+
+/**
+ * 시간 초과가 아니라 설명할 단어가 있는 시도인지 반환합니다.
+ * @param attempt 게임 기록의 시도
+ */
+export function isExplainable(attempt: GameAttempt): boolean {
+  return attempt.newWord !== TIMEOUT_WORD;
+}
+
+/**
+ * 시도의 두 단어가 왜 그런 유사도를 받았는지 설명을 가져옵니다.
+ * 플레이어가 이어서 볼 가능성이 높은 뒤쪽 시도들의 설명도 같은 요청으로 미리 가져옵니다.
+ * 이미 설명을 받아 둔 시도는 다시 묻지 않습니다.
+ * @param history 게임 기록
+ * @param index 설명할 시도의 위치
+ * @param [signal] 설명을 보여줄 화면을 떠나면 중단됩니다. 다른 화면이 기다리는 설명은 계속 가져옵니다.
+ * @returns 한두 문장의 설명
+ * @throws {RequestCancelledError} signal이 중단된 경우
+ */
+export function explainAttempt(history: GameAttempt[], index: number, signal?: AbortSignal): Promise<string> {
+  const explanation = enqueue(history[index], signal);
+  const following = history.slice(index + 1)
+    .filter(attempt => isExplainable(attempt) && !attempt.explanation && !explanations.has(getKey(attempt)))
+    .slice(0, BATCH_SIZE - 1);
+  // Prefetched explanations that fail are simply asked for again later.
+  following.forEach(attempt => enqueue(attempt, signal).catch(() => {}));
+  return explanation;
+}
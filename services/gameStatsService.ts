@@ -0,0 +1,207 @@
+import type { Difficulty, GameAttempt, GameMode } from '../types';
+import { TIMEOUT_WORD, type GameEngine, type GameEngineState } from '../engine/gameEngine';
+import { getLeaderboardDifficultyKey } from './leaderboardRanking';
+
+// 이 기기에서 끝낸 게임을 전체 기록과 함께 localStorage에 쌓아 두고, 개인 통계를 계산합니다.
+// 한 학기 동안 어휘력이 어떻게 늘었는지 볼 수 있도록 게임마다 난이도, 점수, 시도 기록을 남깁니다.
+
+const GAME_RECORDS_KEY = 'gameRecords';
+const MOST_USED_WORDS = 10;
+
+export interface GameRecord {
+  /** Epoch milliseconds when the game ended. */
+  playedAt: number;
+  mode: GameMode;
+  difficulty: Difficulty;
+  /** The score of the player the record belongs to. */
+  score: number;
+  /** The attempts made by the player the record belongs to. */
+  history: GameAttempt[];
+  /** The hot-seat player the record belongs to. Unset for games played alone or against the computer. */
+  player?: string;
+}
+
+export interface DifficultyStats {
+  /** The difficulty's leaderboard key, e.g. "보통 (50%)". */
+  difficulty: string;
+  games: number;
+  best: number;
+  average: number;
+}
+
+export interface GameStats {
+  gamesPlayed: number;
+  byDifficulty: DifficultyStats[];
+  /** The most words chained in a single game. */
+  longestChain: number;
+  /** Mean similarity of every scored attempt, from 0 to 1. */
+  averageSimilarity: number;
+  /** Share of attempts that ran out of time, from 0 to 1. */
+  timeoutRate: number;
+  mostUsedWords: { word: string; count: number }[];
+}
+
+/**
+ * 저장된 게임 기록을 오래된 순서대로 반환합니다.
+ * @returns 끝낸 게임 목록
+ */
+export function getGameRecords(): GameRecord[] {
+  try {
+    const raw = localStorage.getItem(GAME_RECORDS_KEY);
+    const records = raw ? JSON.parse(raw) : [];
+    return Array.isArray(records) ? records : [];
+  } catch (error) {
+    console.error("Error reading game records:", error);
+    return [];
+  }
+}
+
+/**
+ * 게임 기록을 저장합니다. 저장 공간이 가득 차면 가장 오래된 기록부터 지웁니다.
+ * @param record 끝낸 게임
+ */
+export function saveGameRecord(record: GameRecord): void {
+  writeGameRecords([...getGameRecords(), record]);
+}
+
+function writeGameRecords(records: GameRecord[]): void {
+  while (records.length > 0) {
+    try {
+      localStorage.setItem(GAME_RECORDS_KEY, JSON.stringify(records));
+      return;
+    } catch (error) {
+      console.warn("Game records are full, dropping the oldest:", error);
+      records = records.slice(Math.max(1, Math.floor(records.length / 10)));
+    }
+  }
+}
+
+const isSamePair = (a: GameAttempt, b: GameAttempt): boolean => a.previousWord === b.previousWord && a.newWord === b.newWord;
+
+/**
+ * 저장된 게임 기록에서 설명이 붙은 시도를 모두 모읍니다.
+ * @returns 설명이 붙은 시도. 오래된 기록의 시도부터
+ */
+export function getExplainedAttempts(): GameAttempt[] {
+  return getGameRecords().flatMap(record => record.history.filter(attempt => attempt.explanation));
+}
+
+/**
+ * 설명을 같은 단어 쌍이 담긴 가장 최근 게임 기록의 시도에 붙여, 새로고침한 뒤에도 남아 있게 합니다.
+ * @param attempt 설명한 시도
+ * @param explanation 설명
+ */
+export function saveAttemptExplanation(attempt: GameAttempt, explanation: string): void {
+  const records = getGameRecords();
+  for (let i = records.length - 1; i >= 0; i--) {
+    const index = records[i].history.findIndex(candidate => isSamePair(candidate, attempt));
+    if (index === -1) continue;
+    if (records[i].history[index].explanation) return;
+    const history = records[i].history.map((candidate, j) => (j === index ? { ...candidate, explanation } : candidate));
+    records[i] = { ...records[i], history };
+    writeGameRecords(records);
+    return;
+  }
+}
+
+/**
+ * Splits a finished game into one record per human player.
+ * A game played alone or against the computer belongs to the owner of the device. A hot-seat game is recorded under
+ * each player's name instead. Online games are recorded on no one's device, since the other players aren't here.
+ */
+function toGameRecords(state: GameEngineState): GameRecord[] {
+  const { difficulty } = state;
+  if (!difficulty || state.mode === 'online') return [];
+  const humans = state.players.filter(player => !player.isComputer);
+  const isMultiplayer = state.players.length > 1;
+  const playedAt = Date.now();
+  return humans.map(player => {
+    const record: GameRecord = {
+      playedAt,
+      mode: state.mode,
+      difficulty,
+      score: player.score,
+      history: isMultiplayer ? state.history.filter(attempt => attempt.author === player.name) : state.history,
+    };
+    if (humans.length > 1) record.player = player.name;
+    return record;
+  });
+}
+
+/**
+ * 게임이 끝날 때마다 기록을 저장합니다.
+ * @param engine 기록할 게임 엔진
+ * @returns 기록 중지 함수
+ */
+export function attachGameRecording(engine: GameEngine): () => void {
+  return engine.onEvent((event, state) => {
+    if (event.type !== 'gameOver') return;
+    toGameRecords(state).forEach(saveGameRecord);
+  });
+}
+
+/**
+ * 게임 기록으로 개인 통계를 계산합니다.
+ * @param records 통계를 낼 게임 기록
+ * @returns 통계
+ */
+export function computeGameStats(records: GameRecord[]): GameStats {
+  const byDifficulty = new Map<string, number[]>();
+  const wordCounts = new Map<string, number>();
+  let attempts = 0;
+  let timeouts = 0;
+  let similaritySum = 0;
+  let longestChain = 0;
+
+  for (const record of records) {
+    const key = getLeaderboardDifficultyKey(record.difficulty);
+    byDifficulty.set(key, [...(byDifficulty.get(key) ?? []), record.score]);
+    longestChain = Math.max(longestChain, getChainLength(record));
+    for (const attempt of record.history) {
+      attempts++;
+      if (attempt.newWord === TIMEOUT_WORD) {
+        timeouts++;
+        continue;
+      }
+      similaritySum += attempt.similarity;
+      wordCounts.set(attempt.newWord, (wordCounts.get(attempt.newWord) ?? 0) + 1);
+    }
+  }
+
+  const scored = attempts - timeouts;
+  return {
+    gamesPlayed: records.length,
+    byDifficulty: [...byDifficulty].map(([difficulty, scores]) => ({
+      difficulty,
+      games: scores.length,
+      best: Math.max(...scores),
+      average: Math.round(scores.reduce((sum, score) => sum + score, 0) / scores.length),
+    })),
+    longestChain,
+    averageSimilarity: scored > 0 ? similaritySum / scored : 0,
+    timeoutRate: attempts > 0 ? timeouts / attempts : 0,
+    mostUsedWords: [...wordCounts]
+      .map(([word, count]) => ({ word, count }))
+      .sort((a, b) => b.count - a.count || a.word.localeCompare(b.word, 'ko'))
+      .slice(0, MOST_USED_WORDS),
+  };
+}
+
+/**
+ * 한 게임에서 이어 붙인 단어 수를 반환합니다.
+ * @param record 게임 기록
+ */
+export function getChainLength(record: GameRecord): number {
+  return record.history.filter(attempt => attempt.success).length;
+}
+
+/**
+ * 한 게임의 평균 유사도를 반환합니다. 시간 초과는 빼고 계산합니다.
+ * @param record 게임 기록
+ * @returns 평균 유사도. 채점된 시도가 없으면 null
+ */
+export function getAverageSimilarity(record: GameRecord): number | null {
+  const scored = record.history.filter(attempt => attempt.newWord !== TIMEOUT_WORD);
+  if (scored.length === 0) return null;
+  return scored.reduce((sum, attempt) => sum + attempt.similarity, 0) / scored.length;
+}
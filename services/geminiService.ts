@@ -1,3 +1,8 @@
+import type { SimilarityProvider, WordVerdict } from './similarityProvider';
+import { cosineSimilarity } from './vectorMath';
+import { GeminiError, GeminiNetworkError, GeminiParseError, GeminiQuotaError, GeminiSafetyBlockError, RequestCancelledError } from './errors';
+import { buildWordVerdictPrompt, parseWordVerdict, WORD_VERDICT_SCHEMA } from './wordVerdict';
+
 /**
  * Checks if the Gemini API key is provided in the environment variables.
  */
@@ -6,65 +11,296 @@ export function isApiKeyConfigured(): boolean {
   return !!apiKey && apiKey.length > 0;
 }
 
-// The proxy endpoint for the Gemini API
-const API_URL = '/api-proxy/v1beta/models/gemini-2.5-flash:generateContent';
+// The proxy endpoints for the Gemini API
+const API_BASE_URL = '/api-proxy/v1beta/models';
+const GENERATION_MODEL = 'gemini-2.5-flash';
+const EMBEDDING_MODEL = 'gemini-embedding-001';
+
+
+/** How long a single attempt may take before it is abandoned and retried. */
+const REQUEST_TIMEOUT_MS = 15_000;
+/** Retries after the first attempt, for rate limits, server errors and network failures. */
+const MAX_RETRIES = 3;
+const RETRY_BASE_MS = 1_000;
+const RETRY_MAX_MS = 8_000;
+
+/** Finish reasons that mean the safety filters withheld the answer. */
+const BLOCKED_FINISH_REASONS = new Set(['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII']);
 
+// Response schemas. Gemini answers with JSON of this shape, which is still checked before use.
+const START_WORD_SCHEMA = {
+  type: 'OBJECT',
+  properties: { word: { type: 'STRING' } },
+  required: ['word'],
+};
+const SUGGESTIONS_SCHEMA = {
+  type: 'OBJECT',
+  properties: { words: { type: 'ARRAY', items: { type: 'STRING' } } },
+  required: ['words'],
+};
+const EXPLANATIONS_SCHEMA = {
+  type: 'OBJECT',
+  properties: { explanations: { type: 'ARRAY', items: { type: 'STRING' } } },
+  required: ['explanations'],
+};
+
+// Requests currently waiting to retry. The game freezes the turn timer while any are waiting.
+let retryingRequests = 0;
+const retryListeners = new Set<() => void>();
+
+function setRetrying(delta: number): void {
+  retryingRequests += delta;
+  retryListeners.forEach(listener => listener());
+}
 
 /**
- * A helper function to call the Gemini API via the backend proxy.
- * @param prompt The text prompt to send to the model.
- * @returns The text response from the model.
+ * 재시도를 기다리는 요청이 있는지 반환합니다.
+ */
+export function isGeminiRetrying(): boolean {
+  return retryingRequests > 0;
+}
+
+/**
+ * 재시도 대기 상태가 바뀔 때마다 알림을 받습니다. React의 useSyncExternalStore와 함께 쓸 수 있습니다.
+ * @returns 구독 해제 함수
+ */
+export function subscribeToGeminiRetries(listener: () => void): () => void {
+  retryListeners.add(listener);
+  return () => retryListeners.delete(listener);
+}
+
+/**
+ * Reads a nested field of parsed JSON without trusting its shape.
+ * @returns The field, or undefined if any step of the path is missing.
+ */
+function getField(value: unknown, ...path: (string | number)[]): unknown {
+  return path.reduce<unknown>(
+    (current, key) => (typeof current === 'object' && current !== null ? (current as Record<string | number, unknown>)[key] : undefined),
+    value,
+  );
+}
+
+/**
+ * Exponential backoff with full jitter, unless the API said how long to wait.
+ */
+function getRetryDelay(retry: number, error: GeminiError): number {
+  if (error.retryAfterSeconds !== undefined) return Math.min(RETRY_MAX_MS, error.retryAfterSeconds * 1000);
+  return Math.random() * Math.min(RETRY_MAX_MS, RETRY_BASE_MS * 2 ** retry);
+}
+
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(new RequestCancelledError());
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new RequestCancelledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Sends one attempt, abandoning it after REQUEST_TIMEOUT_MS or as soon as the caller's signal aborts.
+ * @throws {GeminiError} A retryable error is a GeminiQuotaError or a GeminiNetworkError.
  */
-async function generateGeminiContent(prompt: string): Promise<string> {
+async function attemptRequest(method: string, body: unknown, signal?: AbortSignal): Promise<unknown> {
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, REQUEST_TIMEOUT_MS);
+  const onAbort = () => controller.abort();
+  signal?.addEventListener('abort', onAbort, { once: true });
+
   try {
-    const response = await fetch(API_URL, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        contents: [{
-          parts: [{ "text": prompt }]
-        }]
-      }),
-    });
+    let response: Response;
+    try {
+      response = await fetch(`${API_BASE_URL}/${method}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(body),
+        signal: controller.signal,
+      });
+    } catch (error) {
+      if (signal?.aborted) throw new RequestCancelledError();
+      if (timedOut) throw new GeminiNetworkError(`${method} timed out after ${REQUEST_TIMEOUT_MS}ms`);
+      throw new GeminiNetworkError(`${method} failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
 
     if (!response.ok) {
-        // Try to get more detailed error from the response body
-        const errorBody = await response.json().catch(() => ({ error: 'Failed to parse error response' }));
-        console.error("API request failed:", response.status, response.statusText, errorBody);
-        const details = (errorBody.error && errorBody.error.message) || errorBody.details || JSON.stringify(errorBody);
-        throw new Error(`${details}`);
+      // Try to get more detailed error from the response body
+      const errorBody: unknown = await response.json().catch(() => null);
+      const reported = getField(errorBody, 'error', 'message') || getField(errorBody, 'details');
+      const details = typeof reported === 'string' ? reported : response.statusText;
+      const message = `${method} failed with ${response.status}: ${details}`;
+      const retryAfter = Number(response.headers.get('Retry-After') ?? NaN);
+      const retryAfterSeconds = Number.isFinite(retryAfter) && retryAfter >= 0 ? retryAfter : undefined;
+      if (response.status === 429) {
+        throw new GeminiQuotaError(message, retryAfterSeconds);
+      }
+      if (response.status >= 500) {
+        throw new GeminiNetworkError(message, response.status, retryAfterSeconds);
+      }
+      throw new GeminiError(message, response.status);
     }
 
-    const data = await response.json();
-    
-    const text = data?.candidates?.[0]?.content?.parts?.[0]?.text;
+    try {
+      return await response.json();
+    } catch (error) {
+      if (signal?.aborted) throw new RequestCancelledError();
+      if (timedOut) throw new GeminiNetworkError(`${method} timed out after ${REQUEST_TIMEOUT_MS}ms`);
+      throw new GeminiParseError(`${method} returned a response that is not JSON`);
+    }
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
+  }
+}
 
-    if (!text || text.trim().length === 0) {
-      console.error("Invalid or empty response from API:", data);
-      throw new Error("API가 비어있거나 유효하지 않은 응답을 반환했습니다.");
+/**
+ * A helper function to POST a request to a Gemini model method via the backend proxy.
+ * Rate limits, server errors, network failures and timeouts are retried with exponential backoff.
+ * @param method The model method to call, e.g. "gemini-2.5-flash:generateContent".
+ * @param body The JSON request body.
+ * @param signal Cancels the request, including any retry it is waiting on.
+ * @returns The parsed JSON response, for the caller to check.
+ * @throws {GeminiError} The typed error of the last attempt.
+ * @throws {RequestCancelledError} If the signal aborted.
+ */
+async function callGeminiApi(method: string, body: unknown, signal?: AbortSignal): Promise<unknown> {
+  for (let retry = 0; ; retry++) {
+    try {
+      return await attemptRequest(method, body, signal);
+    } catch (error) {
+      const isRetryable = error instanceof GeminiQuotaError || error instanceof GeminiNetworkError;
+      if (!isRetryable || retry >= MAX_RETRIES) {
+        if (!(error instanceof RequestCancelledError)) console.error("Gemini API request failed:", error);
+        throw error;
+      }
+      const delay = getRetryDelay(retry, error);
+      console.warn(`Gemini API request failed, retrying in ${Math.round(delay)}ms:`, error);
+      setRetrying(1);
+      try {
+        await wait(delay, signal);
+      } finally {
+        setRetrying(-1);
+      }
     }
-    return text.trim();
-  } catch (error) {
-    console.error("Error calling Gemini API via proxy:", error);
-    const errorMessage = error instanceof Error ? error.message : String(error);
-    throw new Error(`Gemini API와의 통신에 실패했습니다. (오류: ${errorMessage})`);
   }
 }
 
+/**
+ * A helper function to generate text with the Gemini API via the backend proxy.
+ * @param prompt The text prompt to send to the model.
+ * @param signal Cancels the request.
+ * @param generationConfig Options such as a response schema.
+ * @returns The text response from the model.
+ * @throws {GeminiSafetyBlockError} If the safety filters withheld the answer.
+ */
+async function generateGeminiContent(prompt: string, signal?: AbortSignal, generationConfig?: object): Promise<string> {
+  const data = await callGeminiApi(`${GENERATION_MODEL}:generateContent`, {
+    contents: [{
+      parts: [{ "text": prompt }]
+    }],
+    ...(generationConfig && { generationConfig }),
+  }, signal);
+
+  const blockReason = getField(data, 'promptFeedback', 'blockReason');
+  const finishReason = getField(data, 'candidates', 0, 'finishReason');
+  if (typeof blockReason === 'string' && blockReason) {
+    throw new GeminiSafetyBlockError(blockReason);
+  }
+  if (typeof finishReason === 'string' && BLOCKED_FINISH_REASONS.has(finishReason)) {
+    throw new GeminiSafetyBlockError(finishReason);
+  }
+
+  const text = getField(data, 'candidates', 0, 'content', 'parts', 0, 'text');
+
+  if (typeof text !== 'string' || text.trim().length === 0) {
+    console.error("Invalid or empty response from API:", data);
+    throw new GeminiParseError('generateContent returned no text');
+  }
+  return text.trim();
+}
+
+/**
+ * A helper function to generate JSON following a response schema with the Gemini API.
+ * @param prompt The text prompt to send to the model.
+ * @param schema The schema the response must follow.
+ * @param signal Cancels the request.
+ * @returns The parsed response, for the caller to check.
+ * @throws {GeminiParseError} If the response is not JSON.
+ */
+async function generateGeminiJson(prompt: string, schema: object, signal?: AbortSignal): Promise<unknown> {
+  const text = await generateGeminiContent(prompt, signal, { responseMimeType: 'application/json', responseSchema: schema });
+  try {
+    return JSON.parse(text);
+  } catch {
+    console.error("Response from API is not JSON:", text);
+    throw new GeminiParseError('generateContent returned text that is not JSON');
+  }
+}
+
+// Embeddings never change for a given model, so they are kept for the lifetime of the page.
+const embeddingCache = new Map<string, number[]>();
+
+/**
+ * Fetches text embeddings for the given words, reusing any already fetched in this session.
+ * @param words The words to embed.
+ * @param signal Cancels the request.
+ * @returns One embedding vector per word, in the same order.
+ */
+async function embedWords(words: string[], signal?: AbortSignal): Promise<number[][]> {
+  const missing = [...new Set(words.filter(word => !embeddingCache.has(word)))];
+
+  if (missing.length > 0) {
+    const data = await callGeminiApi(`${EMBEDDING_MODEL}:batchEmbedContents`, {
+      requests: missing.map(word => ({
+        model: `models/${EMBEDDING_MODEL}`,
+        content: { parts: [{ text: word }] },
+        taskType: 'SEMANTIC_SIMILARITY',
+      })),
+    }, signal);
+
+    const embeddings = getField(data, 'embeddings');
+    if (!Array.isArray(embeddings) || embeddings.length !== missing.length) {
+      console.error("Invalid embedding response from API:", data);
+      throw new GeminiParseError('batchEmbedContents returned the wrong number of embeddings');
+    }
+    missing.forEach((word, i) => {
+      const values = getField(embeddings[i], 'values');
+      if (!Array.isArray(values) || values.length === 0 || !values.every(value => typeof value === 'number')) {
+        throw new GeminiParseError(`batchEmbedContents returned no embedding for '${word}'`);
+      }
+      embeddingCache.set(word, values);
+    });
+  }
+
+  return words.map(word => embeddingCache.get(word)!);
+}
+
 
 /**
  * Fetches a random Korean noun from the Gemini API to start the game.
  */
-export async function getRandomKoreanWord(): Promise<string> {
+export async function getRandomKoreanWord(signal?: AbortSignal): Promise<string> {
   try {
     // A more creative prompt to generate diverse and interesting starting words.
-    const prompt = "다음 카테고리 중 하나에서 흥미로운 한국어 명사 단어 하나만 무작위로 알려줘: [우주, 바다, 신화, 과학, 예술, 역사, 음식, 기술]. 설명이나 다른 텍스트 없이 오직 단어만 응답해야 해.";
-    const word = await generateGeminiContent(prompt);
-    
-    // The API might sometimes add quotes or other characters, so we clean the response.
-    return word.replace(/["'.]/g, '').trim();
+    const prompt = "다음 카테고리 중 하나에서 흥미로운 한국어 명사 단어 하나만 무작위로 골라 word에 담아줘: [우주, 바다, 신화, 과학, 예술, 역사, 음식, 기술].";
+    const data = await generateGeminiJson(prompt, START_WORD_SCHEMA, signal);
+    const candidate = getField(data, 'word');
+    const word = typeof candidate === 'string' ? candidate.trim() : '';
+    if (!word) {
+      throw new GeminiParseError('generateContent returned no start word');
+    }
+    return word;
   } catch (error) {
     console.error("API로부터 시작 단어를 가져오는 데 실패했습니다:", error);
     // Re-throw all errors to be displayed on the UI. The game cannot start without the API.
@@ -73,37 +309,100 @@ export async function getRandomKoreanWord(): Promise<string> {
 }
 
 /**
- * Calculates the cosine similarity between two words using the Gemini API.
+ * Calculates the cosine similarity between two words from their Gemini text embeddings.
  * @param word1 The first word.
  * @param word2 The second word.
+ * @param signal Cancels the request.
  * @returns A similarity score between -1 and 1.
  */
-export async function calculateSimilarity(word1: string, word2: string): Promise<number> {
-  try {
-    const prompt = `두 단어 "${word1}"와(과) "${word2}" 사이의 코사인 유사도 점수를 계산해줘. 응답은 오직 부동 소수점 숫자(예: 0.7543)만 포함해야 해. 다른 텍스트나 설명은 붙이지 마.`;
-    const text = await generateGeminiContent(prompt);
-
-    // Extract the first floating-point number from the API's response.
-    const numberMatch = text.match(/-?(\d+(\.\d+)?)/);
-    
-    if (numberMatch && numberMatch[0]) {
-      const similarity = parseFloat(numberMatch[0]);
-      if (!isNaN(similarity) && isFinite(similarity)) {
-        // Clamp the value between -1 and 1.
-        return Math.max(-1, Math.min(1, similarity));
-      }
-    }
-    
-    console.error(`Failed to parse similarity score from response: "${text}"`);
-    throw new Error("모델로부터 유효한 유사도 점수를 파싱할 수 없습니다.");
+async function calculateEmbeddingSimilarity(word1: string, word2: string, signal?: AbortSignal): Promise<number> {
+  const [embedding1, embedding2] = await embedWords([word1, word2], signal);
+  return cosineSimilarity(embedding1, embedding2);
+}
 
-  } catch (error) {
-    console.error(`Error calculating similarity between ${word1} and ${word2}:`, error);
-    // Re-throw the error so it can be displayed in the game UI.
-    if (error instanceof Error) {
-        throw error;
-    }
-    // Fallback for unknown error types.
-    throw new Error("유사도 계산 중 알 수 없는 오류가 발생했습니다.");
+/**
+ * Asks Gemini for Korean nouns related to a word, from closely to loosely related.
+ * The suggestions are embedded in one batch so that scoring them afterwards needs no further requests.
+ * @param word The word to find related words for.
+ * @param count The maximum number of suggestions.
+ * @param signal Cancels the request.
+ */
+async function suggestRelatedWords(word: string, count: number, signal?: AbortSignal): Promise<string[]> {
+  const prompt = `'${word}'와(과) 관련된 한국어 명사 ${count}개를 words에 담아줘. 아주 가까운 단어부터 느슨하게 연관된 단어까지 골고루 섞어줘.`;
+  const data = await generateGeminiJson(prompt, SUGGESTIONS_SCHEMA, signal);
+  const suggestions = getField(data, 'words');
+  if (!Array.isArray(suggestions)) {
+    throw new GeminiParseError('generateContent returned no word list');
+  }
+  const words = [...new Set(suggestions
+    .filter((candidate): candidate is string => typeof candidate === 'string')
+    .map(candidate => candidate.trim())
+    .filter(candidate => candidate.length > 0 && candidate !== word))]
+    .slice(0, count);
+  if (words.length > 0) {
+    await embedWords(words, signal);
+  }
+  return words;
+}
+
+// Verdicts are kept for the session, so a word played again after the same word gets the same verdict.
+const verdictCache = new Map<string, WordVerdict>();
+
+/**
+ * Asks Gemini whether a played word is a real Korean word and a noun, and why.
+ * The score itself comes from the embeddings, so that it stays deterministic and the leaderboard server can check it.
+ * @param previousWord The word the played word follows.
+ * @param word The played word.
+ * @param signal Cancels the request.
+ */
+async function judgeWord(previousWord: string, word: string, signal?: AbortSignal): Promise<WordVerdict> {
+  const key = `${previousWord}|${word}`;
+  const cached = verdictCache.get(key);
+  if (cached) return cached;
+
+  const data = await generateGeminiJson(buildWordVerdictPrompt(previousWord, word), WORD_VERDICT_SCHEMA, signal);
+  const verdict = parseWordVerdict(data);
+  if (!verdict) {
+    console.error("Invalid word verdict from API:", data);
+    throw new GeminiParseError('generateContent returned an incomplete word verdict');
+  }
+  verdictCache.set(key, verdict);
+  return verdict;
+}
+
+/**
+ * Asks Gemini to explain a batch of word pairs in one request.
+ * @param pairs The word pairs, each with the similarity the game gave it.
+ * @param signal Cancels the request.
+ * @returns One explanation per pair, in the same order.
+ */
+async function explainPairs(pairs: { word1: string; word2: string; similarity: number }[], signal?: AbortSignal): Promise<string[]> {
+  const list = pairs
+    .map(({ word1, word2, similarity }, i) => `${i + 1}. '${word1}' → '${word2}' (유사도 ${(Math.max(0, similarity) * 100).toFixed(1)}%)`)
+    .join('\n');
+  const prompt = `단어 임베딩의 코사인 유사도로 점수를 매기는 한국어 단어 잇기 게임이야. 아래 단어 쌍마다 두 단어가 어떤 의미로 이어지는지,
+그리고 유사도가 왜 그 정도로 나왔는지를 게임 플레이어가 이해할 수 있게 한국어 한두 문장으로 설명해서 같은 순서로 explanations에 담아줘.
+${list}`;
+  const data = await generateGeminiJson(prompt, EXPLANATIONS_SCHEMA, signal);
+  const explanations = getField(data, 'explanations');
+  if (!Array.isArray(explanations) || explanations.length !== pairs.length
+    || !explanations.every((explanation): explanation is string => typeof explanation === 'string' && explanation.trim().length > 0)) {
+    console.error("Invalid explanations from API:", data);
+    throw new GeminiParseError('generateContent returned the wrong number of explanations');
   }
-}
\ No newline at end of file
+  return explanations.map(explanation => explanation.trim());
+}
+
+/**
+ * Similarity provider backed by Gemini text embeddings.
+ */
+export const geminiSimilarityProvider: SimilarityProvider = {
+  id: `gemini:${EMBEDDING_MODEL}`,
+  requiresApiKey: true,
+  calculateSimilarity: calculateEmbeddingSimilarity,
+  judgeWord,
+  getStartWord: getRandomKoreanWord,
+  suggestWords: suggestRelatedWords,
+  embedWords,
+  explainPairs,
+};
@@ -0,0 +1,35 @@
+import { getThresholdMargin, type GameEngineState } from '../engine/gameEngine';
+import { findWordCandidates, type WordCandidate } from './wordCandidates';
+
+// 막힌 플레이어를 위한 단계별 힌트입니다. 후보 단어는 현재 목표(멀어지기 모드에서는 상한)를 통과하는 것만 남기며,
+// 첫 번째 힌트는 가장 좋은 후보의 첫 글자만, 두 번째 힌트는 후보 단어들을 보여 줍니다.
+
+/** The number of hint levels; each level costs the difficulty's hint cost. */
+export const MAX_HINT_LEVEL = 2;
+
+/** How many passing words the last hint level reveals. */
+const REVEALED_CANDIDATES = 3;
+const SUGGESTION_COUNT = 20;
+
+/**
+ * Finds words that clear the current threshold by the widest margin first.
+ * @param signal Cancels the requests, e.g. when the game is restarted.
+ * @returns An empty array when no suggestion passes.
+ */
+export async function findHintCandidates(state: GameEngineState, signal?: AbortSignal): Promise<WordCandidate[]> {
+  const candidates = await findWordCandidates(state, SUGGESTION_COUNT, signal);
+  const margin = (candidate: WordCandidate) =>
+    getThresholdMargin(candidate.similarity, state.currentThreshold, state.difficulty!.rules.direction);
+  return candidates
+    .filter(candidate => margin(candidate) >= 0)
+    .sort((a, b) => margin(b) - margin(a))
+    .slice(0, REVEALED_CANDIDATES);
+}
+
+/**
+ * Shows only the first syllable of a word, e.g. "바다새" → "바○○".
+ */
+export function maskWord(word: string): string {
+  const [first, ...rest] = Array.from(word);
+  return first + '○'.repeat(rest.length);
+}
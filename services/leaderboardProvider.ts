@@ -0,0 +1,141 @@
+import { appsScriptLeaderboardProvider } from './appsScriptLeaderboard';
+import { localLeaderboardProvider } from './localLeaderboard';
+import { serverLeaderboardProvider } from './serverLeaderboard';
+import type { LeaderboardWindow } from './leaderboardRanking';
+import type { Difficulty, GameAttempt } from '../types';
+
+export interface LeaderboardEntry {
+  name: string;
+  score: number;
+  /** The difficulty the score was set on, as given by getLeaderboardDifficultyKey. */
+  difficulty?: string;
+  /** When the score was recorded, in epoch milliseconds. */
+  createdAt?: number;
+}
+
+export interface RankedEntry extends LeaderboardEntry {
+  /** 1-based position on the board. Tied scores share a rank. */
+  rank: number;
+}
+
+/**
+ * The separately ranked leaderboards: classic games, each day's daily challenge, and distance mode.
+ */
+export type LeaderboardBoard = 'classic' | 'daily' | 'distance';
+
+/** The number of entries shown on the podium after a game. */
+export const DEFAULT_LEADERBOARD_SIZE = 3;
+
+/** Which scores are ranked against each other. */
+export interface LeaderboardScope {
+  board: LeaderboardBoard;
+  /** KST date (YYYY-MM-DD). Required for the daily board, which is ranked per day. */
+  date?: string;
+  /** Only scores set on this difficulty. All difficulties when omitted. */
+  difficulty?: string;
+  /** Defaults to all time. Ignored by the daily board. */
+  window?: LeaderboardWindow;
+}
+
+export interface LeaderboardQuery extends LeaderboardScope {
+  /** Number of top entries to skip, for paging. */
+  offset?: number;
+  /** Maximum number of entries to return. Defaults to DEFAULT_LEADERBOARD_SIZE. */
+  limit?: number;
+}
+
+export interface LeaderboardPage {
+  entries: RankedEntry[];
+  /** Number of entries in the whole scope, across all pages. */
+  total: number;
+}
+
+export interface ScoreSubmission {
+  /** Idempotency key: a backend that has already recorded this id must not record it again. */
+  id: string;
+  board: LeaderboardBoard;
+  /** KST date (YYYY-MM-DD). Required for the daily board. */
+  date?: string;
+  difficulty: string;
+  name: string;
+  score: number;
+  /** The game behind the score, for backends that verify scores by replaying it. */
+  run?: RunRecord;
+}
+
+/** What a verifying backend records when a ranked game starts. */
+export interface RunStart {
+  board: LeaderboardBoard;
+  date?: string;
+  difficulty: Difficulty;
+}
+
+/** Issued by a verifying backend for a ranked game that is about to start. */
+export interface RunTicket {
+  token: string;
+  /** Chosen by the backend. The game must start from it, or its score is refused. */
+  startWord: string;
+}
+
+export interface RunRecord {
+  /** Issued by startRun when the game started. */
+  token: string;
+  history: GameAttempt[];
+}
+
+/**
+ * A place where scores are stored and ranked.
+ */
+export interface LeaderboardProvider {
+  /** Identifies the backend, e.g. "local" or "server". */
+  readonly id: string;
+  /**
+   * Fetches one page of a board.
+   * @returns Entries sorted by score, highest first.
+   */
+  fetchLeaderboard(query: LeaderboardQuery): Promise<LeaderboardPage>;
+  /**
+   * Returns the rank a score has within a scope, even outside the top entries.
+   * @returns Null if the backend cannot tell.
+   */
+  fetchRank(scope: LeaderboardScope, score: number): Promise<number | null>;
+  /**
+   * Records a score. Safe to call again with the same submission id.
+   * @throws {ScoreRejectedError} If the backend refuses the score, so that it is not retried.
+   */
+  submitScore(submission: ScoreSubmission): Promise<void>;
+  /**
+   * Registers a ranked game before it starts, for backends that verify submitted scores.
+   * @returns A run token to send back with the score, and the word the game must start from.
+   */
+  startRun?(start: RunStart): Promise<RunTicket>;
+}
+
+let activeProvider: LeaderboardProvider | null = null;
+
+/**
+ * Returns the leaderboard backend the game should use.
+ * Set LEADERBOARD_PROVIDER to 'apps-script', 'server' or 'local'. When it is not set, the Apps Script backend
+ * is used, at APPS_SCRIPT_URL or the original shared deployment, so existing setups keep their leaderboard.
+ */
+export function getLeaderboardProvider(): LeaderboardProvider {
+  if (!activeProvider) {
+    switch (process.env.LEADERBOARD_PROVIDER) {
+      case 'apps-script':
+        activeProvider = appsScriptLeaderboardProvider;
+        break;
+      case 'server':
+        activeProvider = serverLeaderboardProvider;
+        break;
+      case 'local':
+        activeProvider = localLeaderboardProvider;
+        break;
+      default:
+        if (process.env.LEADERBOARD_PROVIDER) {
+          console.warn(`Unknown LEADERBOARD_PROVIDER '${process.env.LEADERBOARD_PROVIDER}'; using the Apps Script leaderboard.`);
+        }
+        activeProvider = appsScriptLeaderboardProvider;
+    }
+  }
+  return activeProvider;
+}
@@ -0,0 +1,97 @@
+import type { Difficulty, GameRules } from '../types';
+import { DISTANCE_DIFFICULTIES, PREDEFINED_DIFFICULTIES } from '../engine/gameEngine';
+import { DAILY_DIFFICULTY } from './dailyChallengeService';
+
+// 리더보드 조회 범위(기간, 난이도)와 순위 계산을 담당하는 순수 함수들입니다.
+// 브라우저의 로컬 리더보드와 server/leaderboard.ts 가 같은 규칙을 쓰도록 공유합니다.
+
+const KST_OFFSET_MS = 9 * 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Time windows a board can be viewed in: today, the last 7 days (KST), or all time. */
+export type LeaderboardWindow = 'day' | 'week' | 'all';
+
+export const LEADERBOARD_WINDOWS: LeaderboardWindow[] = ['day', 'week', 'all'];
+
+export interface RankableEntry {
+  score: number;
+  difficulty?: string;
+  /** When the score was recorded, in epoch milliseconds. */
+  createdAt?: number;
+}
+
+/**
+ * Returns the earliest time included in a window, or null for all time.
+ * Windows follow KST calendar days, like the daily challenge.
+ */
+export function getWindowStart(window: LeaderboardWindow, now: number = Date.now()): number | null {
+  if (window === 'all') return null;
+  const startOfToday = Math.floor((now + KST_OFFSET_MS) / DAY_MS) * DAY_MS - KST_OFFSET_MS;
+  return window === 'day' ? startOfToday : startOfToday - 6 * DAY_MS;
+}
+
+const BUILT_IN_DIFFICULTIES = [...PREDEFINED_DIFFICULTIES, ...DISTANCE_DIFFICULTIES, DAILY_DIFFICULTY];
+
+/** Every rule, in a fixed order, so that the fingerprint of a difficulty doesn't depend on how it was stored. */
+const RULE_KEYS: (keyof GameRules)[] = ['direction', 'lives', 'timerSeconds', 'thresholdStep', 'failurePenalty', 'roundBonus', 'resetLivesOnSuccess', 'hintCost'];
+
+function isBuiltInDifficulty(difficulty: Difficulty): boolean {
+  return BUILT_IN_DIFFICULTIES.some(builtIn => builtIn.name === difficulty.name
+    && builtIn.threshold === difficulty.threshold && builtIn.multiplier === difficulty.multiplier
+    && RULE_KEYS.every(key => builtIn.rules[key] === difficulty.rules[key]));
+}
+
+/**
+ * Hashes the multiplier and rules of a difficulty into 8 hex digits (FNV-1a).
+ */
+function getRulesFingerprint(difficulty: Difficulty): string {
+  const text = JSON.stringify([difficulty.multiplier, ...RULE_KEYS.map(key => difficulty.rules[key])]);
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+/**
+ * Returns the key scores are grouped by, so that scores from different difficulties are never mixed.
+ * Built-in difficulties are keyed by name and threshold. Any other difficulty also carries its multiplier and
+ * a fingerprint of its rules, since a name and threshold alone don't say how hard it was: a custom '보통'
+ * at 50% with extra lives never lands on the built-in board.
+ */
+export function getLeaderboardDifficultyKey(difficulty: Difficulty): string {
+  const threshold = `${Math.round(difficulty.threshold * 100)}%`;
+  if (isBuiltInDifficulty(difficulty)) return `${difficulty.name} (${threshold})`;
+  return `${difficulty.name} (${threshold}, ×${difficulty.multiplier}, ${getRulesFingerprint(difficulty)})`;
+}
+
+/**
+ * Keeps the entries within a difficulty and time window, sorted highest score first.
+ * Entries without a recorded time are kept in every window.
+ */
+export function filterEntries<T extends RankableEntry>(entries: T[], scope: { difficulty?: string; window?: LeaderboardWindow }, now?: number): T[] {
+  const since = getWindowStart(scope.window ?? 'all', now);
+  return entries
+    .filter(entry => !scope.difficulty || entry.difficulty === scope.difficulty)
+    .filter(entry => since === null || entry.createdAt === undefined || entry.createdAt >= since)
+    .sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Returns the 1-based rank a score would have among sorted entries: one more than the number of higher scores.
+ */
+export function rankOf(sortedEntries: RankableEntry[], score: number): number {
+  const higher = sortedEntries.findIndex(entry => entry.score <= score);
+  return (higher === -1 ? sortedEntries.length : higher) + 1;
+}
+
+/**
+ * Cuts one page out of sorted entries and numbers them. Tied scores share a rank.
+ */
+export function pageEntries<T extends RankableEntry>(sortedEntries: T[], offset: number, limit: number): { entries: (T & { rank: number })[]; total: number } {
+  return {
+    entries: sortedEntries.slice(offset, offset + limit).map(entry => ({ ...entry, rank: rankOf(sortedEntries, entry.score) })),
+    total: sortedEntries.length,
+  };
+}
@@ -1,80 +1,108 @@
-export interface LeaderboardEntry {
-  name: string;
-  score: number;
+import type { Difficulty, GameMode } from '../types';
+import { getLeaderboardProvider, type LeaderboardPage, type LeaderboardQuery, type LeaderboardScope, type RunTicket, type ScoreSubmission } from './leaderboardProvider';
+import { getLeaderboardDifficultyKey } from './leaderboardRanking';
+import { enqueueSubmission } from './scoreOutbox';
+import { ScoreRejectedError } from './errors';
+
+export type { LeaderboardBoard, LeaderboardEntry, LeaderboardPage, LeaderboardScope, RankedEntry, RunRecord, RunTicket } from './leaderboardProvider';
+
+/**
+ * 리더보드에 오르는 게임 모드인지 확인합니다. 여러 명이 하는 게임, AI 대결, 다리 놓기는 순위에 들지 않습니다.
+ * @param mode 게임 모드
+ */
+export function isRankedMode(mode: GameMode): boolean {
+  return mode === 'classic' || mode === 'daily';
 }
 
-// 이 URL은 Google Apps Script를 웹 앱으로 배포한 후 얻게 되는 URL입니다.
-// 사용자가 제공한 URL을 여기에 직접 설정합니다.
-const APPS_SCRIPT_URL = 'https://script.google.com/macros/s/AKfycbyAzZVi1jzHV-ibXgF_nZLUOqL3OOkqiHYXWRBy4pDPsOjJvMY4zwZpkZV2YZXazAReDA/exec';
+/**
+ * 끝난 게임의 점수가 겨룰 범위(보드와 난이도)를 정합니다.
+ * 오늘의 도전은 날짜별로, 멀어지기 모드는 별도 보드로, 그 밖의 게임은 일반 보드로 집계됩니다.
+ * @param mode 게임 모드
+ * @param difficulty 게임 난이도
+ * @param [date] 오늘의 도전 날짜 (KST, YYYY-MM-DD)
+ */
+export function getGameLeaderboardScope(mode: GameMode, difficulty: Difficulty, date?: string): LeaderboardScope {
+  const difficultyKey = getLeaderboardDifficultyKey(difficulty);
+  if (mode === 'daily') return { board: 'daily', date, difficulty: difficultyKey };
+  return { board: difficulty.rules.direction === 'distant' ? 'distance' : 'classic', difficulty: difficultyKey };
+}
 
 /**
- * 리더보드 상위 점수를 가져옵니다.
- * @returns {Promise<LeaderboardEntry[]>} 상위 3명의 리더보드 데이터 배열
+ * 이 기기의 최고 기록을 저장하는 localStorage 키를 반환합니다. 기록은 리더보드와 같은 범위별로 따로 보관됩니다.
+ * @param scope 기록이 속한 범위
  */
-export async function getLeaderboard(): Promise<LeaderboardEntry[]> {
-  if (!APPS_SCRIPT_URL) {
-    console.warn("Apps Script URL is not configured. Leaderboard will not be available.");
-    // URL이 없는 경우에도 앱이 작동하도록 빈 배열을 반환합니다.
-    return [];
-  }
-  
-  try {
-    // CORS 오류를 피하기 위해 GET 요청에서 불필요한 'Content-Type' 헤더를 제거했습니다.
-    // GET 요청은 본문(body)이 없으므로 해당 헤더는 문제를 유발할 수 있습니다.
-    const response = await fetch(APPS_SCRIPT_URL, {
-        method: 'GET',
-        redirect: 'follow', // Apps Script는 GET 요청 시 리다이렉션을 수행할 수 있습니다.
-    });
-    
-    if (!response.ok) {
-        // 더 나은 디버깅을 위해 상태 코드와 텍스트를 포함합니다.
-        throw new Error(`Failed to fetch leaderboard: ${response.status} ${response.statusText}`);
-    }
-    
-    const data = await response.json();
-    return data.leaderboard;
+export function getLocalHighScoreKey(scope: LeaderboardScope): string {
+  return `highScore:${scope.board}:${scope.difficulty ?? ''}`;
+}
 
-  } catch (error) {
-    console.error("Error fetching leaderboard:", error);
-    // 여기서 발생한 오류는 네트워크 문제(CORS 등)일 가능성이 높습니다.
-    throw new Error('리더보드 데이터를 가져오는 데 실패했습니다. 네트워크 연결 또는 CORS 설정을 확인하세요.');
-  }
+/**
+ * 리더보드의 한 쪽을 가져옵니다.
+ * @param query 보드, 난이도, 기간, 쪽 위치
+ * @returns 높은 점수 순으로 정렬된 항목과 전체 항목 수
+ */
+export async function getLeaderboard(query: LeaderboardQuery): Promise<LeaderboardPage> {
+  return getLeaderboardProvider().fetchLeaderboard(query);
 }
 
 /**
- * 새로운 점수를 리더보드에 제출합니다.
- * @param {string} name 플레이어 이름
- * @param {number} score 플레이어 점수
- * @returns {Promise<void>}
+ * 점수의 실제 순위를 가져옵니다. 상위 목록 밖의 순위도 알려줍니다.
+ * @param scope 순위를 매길 범위
+ * @param score 순위를 알고 싶은 점수
+ * @returns 1부터 시작하는 순위. 점수가 없거나 알 수 없으면 null
  */
-export async function submitScore(name: string, score: number): Promise<void> {
-    if (!APPS_SCRIPT_URL) {
-        throw new Error("Apps Script URL is not configured. Cannot submit score.");
-    }
+export async function getLeaderboardRank(scope: LeaderboardScope, score: number): Promise<number | null> {
+  if (score <= 0) return null;
+  return getLeaderboardProvider().fetchRank(scope, score);
+}
 
-    try {
-        // POST 요청은 'text/plain' Content-Type을 사용하여 CORS preflight 요청을 피합니다.
-        // 이것은 Google Apps Script와 통신할 때 일반적인 패턴입니다.
-        const response = await fetch(APPS_SCRIPT_URL, {
-            method: 'POST',
-            headers: {
-                'Content-Type': 'text/plain;charset=utf-8',
-            },
-            body: JSON.stringify({ name, score }),
-            mode: 'cors',
-        });
+/**
+ * 순위에 드는 게임을 시작하기 전에 리더보드에 알립니다. 점수를 검증하는 리더보드만 실행 토큰과 시작 단어를 정해 줍니다.
+ * 토큰을 받지 못해도 게임은 그대로 진행되며, 그 경우 검증하는 리더보드에는 점수를 올릴 수 없습니다.
+ * @param scope 게임이 겨룰 범위
+ * @param difficulty 게임 난이도
+ * @returns 실행 토큰과 시작 단어. 필요 없거나 받지 못했으면 null
+ */
+export async function startLeaderboardRun(scope: LeaderboardScope, difficulty: Difficulty): Promise<RunTicket | null> {
+  const provider = getLeaderboardProvider();
+  if (!provider.startRun) return null;
+  try {
+    return await provider.startRun({ board: scope.board, date: scope.date, difficulty });
+  } catch (error) {
+    console.warn("Could not register the game with the leaderboard:", error);
+    return null;
+  }
+}
 
-        if (!response.ok) {
-            throw new Error(`Failed to submit score: ${response.status} ${response.statusText}`);
-        }
+/**
+ * 무작위 제출 id를 만듭니다. crypto.randomUUID는 https와 localhost에서만 쓸 수 있는데,
+ * 교실용 리더보드는 http로 열리는 경우가 많습니다.
+ */
+function createSubmissionId(): string {
+  return Array.from(crypto.getRandomValues(new Uint8Array(16)), byte => byte.toString(16).padStart(2, '0')).join('');
+}
 
-        const result = await response.json();
-        if (result.status !== 'success') {
-            throw new Error(result.message || 'An unknown error occurred during score submission.');
-        }
+export interface SubmissionResult {
+  /** 제출의 멱등성 키. 보낼 편지함에서 제출을 추적하는 데 씁니다. */
+  id: string;
+  /** 'pending'이면 점수가 보낼 편지함에 들어가 나중에 다시 보내집니다. */
+  status: 'submitted' | 'pending';
+}
 
-    } catch (error) {
-        console.error("Error submitting score:", error);
-        throw new Error('점수 제출에 실패했습니다. 네트워크 연결 또는 CORS 설정을 확인하세요.');
-    }
+/**
+ * 새로운 점수를 리더보드에 제출합니다. 네트워크 문제로 실패하면 보낼 편지함에 넣어 나중에 다시 보냅니다.
+ * @param submission 보드, 난이도, 플레이어 이름과 점수, 그리고 검증에 쓸 게임 기록
+ * @returns 제출 id와 결과
+ * @throws {ScoreRejectedError} 리더보드가 점수를 거절한 경우. 이 점수는 다시 보내지 않습니다.
+ */
+export async function submitScore(submission: Omit<ScoreSubmission, 'id'>): Promise<SubmissionResult> {
+  const withId: ScoreSubmission = { ...submission, id: createSubmissionId() };
+  try {
+    await getLeaderboardProvider().submitScore(withId);
+    return { id: withId.id, status: 'submitted' };
+  } catch (error) {
+    if (error instanceof ScoreRejectedError) throw error;
+    console.warn("Score submission failed; it will be retried:", error);
+    enqueueSubmission(withId);
+    return { id: withId.id, status: 'pending' };
+  }
 }
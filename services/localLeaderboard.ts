@@ -0,0 +1,57 @@
+import { DEFAULT_LEADERBOARD_SIZE, type LeaderboardEntry, type LeaderboardProvider, type LeaderboardScope } from './leaderboardProvider';
+import { filterEntries, pageEntries, rankOf } from './leaderboardRanking';
+
+// 네트워크 없이 이 기기의 localStorage에만 점수를 저장하는 리더보드입니다.
+const STORAGE_KEY = 'localLeaderboard';
+const MAX_ENTRIES_PER_BOARD = 500;
+
+/** The submission id is kept so a repeated submission is recorded once. */
+type StoredEntry = LeaderboardEntry & { id?: string };
+type StoredBoards = Record<string, StoredEntry[]>;
+
+function boardKey(scope: Pick<LeaderboardScope, 'board' | 'date'>): string {
+  return scope.board === 'daily' ? `daily:${scope.date}` : scope.board;
+}
+
+function readBoards(): StoredBoards {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const boards = raw ? JSON.parse(raw) : {};
+    return boards && typeof boards === 'object' ? boards : {};
+  } catch (error) {
+    console.error("Error reading local leaderboard:", error);
+    return {};
+  }
+}
+
+function readScope(scope: LeaderboardScope): LeaderboardEntry[] {
+  const entries = readBoards()[boardKey(scope)] ?? [];
+  // The daily board is already limited to one day.
+  return filterEntries(entries, scope.board === 'daily' ? { difficulty: scope.difficulty } : scope);
+}
+
+/**
+ * 점수를 이 기기에만 보관하는 리더보드입니다. 오프라인 플레이에 사용합니다.
+ */
+export const localLeaderboardProvider: LeaderboardProvider = {
+  id: 'local',
+
+  async fetchLeaderboard({ offset = 0, limit = DEFAULT_LEADERBOARD_SIZE, ...scope }) {
+    return pageEntries(readScope(scope), offset, limit);
+  },
+
+  async fetchRank(scope, score) {
+    return rankOf(readScope(scope), score);
+  },
+
+  async submitScore({ id, board, date, difficulty, name, score }) {
+    const boards = readBoards();
+    const key = boardKey({ board, date });
+    if (boards[key]?.some(entry => entry.id === id)) return;
+    // Keep the highest scores when the board is full; newer entries win ties.
+    boards[key] = [{ id, name, score, difficulty, createdAt: Date.now() }, ...(boards[key] ?? [])]
+      .sort((a, b) => b.score - a.score)
+      .slice(0, MAX_ENTRIES_PER_BOARD);
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(boards));
+  },
+};
@@ -0,0 +1,88 @@
+import type { SimilarityProvider } from './similarityProvider';
+import { cosineSimilarity } from './vectorMath';
+import { parseWordVectors, normalizeWord, getWordVector, type WordVectorTable } from './wordVectors';
+import { WordNotInVocabularyError } from './errors';
+import { STARTER_NOUNS } from '../data/starterNouns';
+
+const WORD_VECTORS_URL = process.env.WORD_VECTORS_URL || '/word-vectors/ko.kwv';
+
+let tablePromise: Promise<WordVectorTable> | null = null;
+
+/**
+ * Loads the bundled word vector table once and shares it between callers.
+ */
+function loadWordVectors(): Promise<WordVectorTable> {
+  if (!tablePromise) {
+    // The file is built from fastText vectors rather than committed, so a fresh checkout has none.
+    let isMissing = false;
+    tablePromise = (async () => {
+      const response = await fetch(WORD_VECTORS_URL);
+      isMissing = response.status === 404;
+      if (!response.ok) {
+        throw new Error(`Failed to fetch word vectors: ${response.status} ${response.statusText}`);
+      }
+      return parseWordVectors(await response.arrayBuffer());
+    })().catch(error => {
+      console.error("Error loading word vectors:", error);
+      // Allow a later call to retry the download.
+      tablePromise = null;
+      throw new Error(isMissing
+        ? `단어 벡터 파일(${WORD_VECTORS_URL})이 없습니다. 'npm run build:vectors'로 파일을 만들어야 오프라인 모드를 쓸 수 있습니다. README의 Offline Mode를 참고하세요.`
+        : '단어 벡터 파일을 불러오지 못했습니다. 파일이 배포되었는지 확인하세요.');
+    });
+  }
+  return tablePromise;
+}
+
+function lookup(table: WordVectorTable, word: string): Int8Array {
+  const vector = getWordVector(table, normalizeWord(word));
+  if (!vector) {
+    throw new WordNotInVocabularyError(word);
+  }
+  return vector;
+}
+
+/**
+ * Similarity provider that runs entirely in the browser from a bundled word vector table.
+ * It makes no requests once the table is loaded, so it has nothing to cancel and ignores abort signals.
+ */
+export const localSimilarityProvider: SimilarityProvider = {
+  id: `local:${WORD_VECTORS_URL}`,
+  requiresApiKey: false,
+
+  async calculateSimilarity(word1: string, word2: string): Promise<number> {
+    const table = await loadWordVectors();
+    return cosineSimilarity(lookup(table, word1), lookup(table, word2));
+  },
+
+  async getStartWord(): Promise<string> {
+    const table = await loadWordVectors();
+    // Prefer curated nouns so the game doesn't open with a particle or verb form.
+    const candidates = STARTER_NOUNS.filter(word => table.index.has(normalizeWord(word)));
+    const pool = candidates.length > 0 ? candidates : table.words;
+    return pool[Math.floor(Math.random() * pool.length)];
+  },
+
+  async suggestWords(word: string, count: number): Promise<string[]> {
+    const table = await loadWordVectors();
+    const target = lookup(table, word);
+    const self = table.index.get(normalizeWord(word));
+
+    // A linear scan is fast enough for a vocabulary of a few tens of thousands of words.
+    const scored: { word: string; similarity: number }[] = [];
+    for (let i = 0; i < table.words.length; i++) {
+      if (i === self) continue;
+      const vector = table.vectors.subarray(i * table.dim, (i + 1) * table.dim);
+      scored.push({ word: table.words[i], similarity: cosineSimilarity(target, vector) });
+    }
+    return scored
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, count)
+      .map(candidate => candidate.word);
+  },
+
+  async embedWords(words: string[]): Promise<number[][]> {
+    const table = await loadWordVectors();
+    return words.map(word => Array.from(lookup(table, word)));
+  },
+};
@@ -0,0 +1,76 @@
+import type { ClientMessage, ServerMessage } from '../server/protocol';
+
+// 온라인 방 서버(server/rooms.ts)와의 WebSocket 연결을 관리합니다.
+const ROOM_SERVER_URL = process.env.ROOM_SERVER_URL || 'ws://localhost:8787';
+
+export interface RoomConnection {
+  send(message: ClientMessage): void;
+  close(): void;
+}
+
+const SERVER_MESSAGE_TYPES = new Set<string>(['joined', 'roomUpdated', 'gameState', 'error']);
+
+/**
+ * 서버가 보낸 JSON이 알려진 메시지 형태인지 확인합니다.
+ */
+function isServerMessage(value: unknown): value is ServerMessage {
+  if (typeof value !== 'object' || value === null) return false;
+  const { type } = value as { type?: unknown };
+  return typeof type === 'string' && SERVER_MESSAGE_TYPES.has(type);
+}
+
+/**
+ * 방 서버에 연결합니다.
+ * @param onMessage 서버 메시지를 받을 콜백
+ * @param onClose 연결이 끊겼을 때 호출될 콜백
+ * @returns 연결이 열리면 resolve 됩니다.
+ */
+export function connectToRoomServer(onMessage: (message: ServerMessage) => void, onClose: () => void): Promise<RoomConnection> {
+  return new Promise((resolve, reject) => {
+    let socket: WebSocket;
+    try {
+      socket = new WebSocket(ROOM_SERVER_URL);
+    } catch (error) {
+      console.error("Error creating WebSocket:", error);
+      reject(new Error('온라인 방 서버 주소가 올바르지 않습니다.'));
+      return;
+    }
+
+    let isOpen = false;
+
+    socket.onopen = () => {
+      isOpen = true;
+      resolve({
+        send: (message) => {
+          if (socket.readyState === WebSocket.OPEN) {
+            socket.send(JSON.stringify(message));
+          }
+        },
+        close: () => socket.close(),
+      });
+    };
+
+    socket.onmessage = (event) => {
+      try {
+        const message: unknown = JSON.parse(event.data);
+        if (!isServerMessage(message)) throw new Error(`Unknown message: ${event.data}`);
+        onMessage(message);
+      } catch (error) {
+        console.error("Invalid message from room server:", error);
+      }
+    };
+
+    socket.onerror = (event) => {
+      console.error("Room server connection error:", event);
+      if (!isOpen) {
+        reject(new Error('온라인 방 서버에 연결하지 못했습니다. 서버가 실행 중인지 확인하세요.'));
+      }
+    };
+
+    socket.onclose = () => {
+      if (isOpen) {
+        onClose();
+      }
+    };
+  });
+}
@@ -0,0 +1,46 @@
+import type { Difficulty } from '../types';
+import { DEFAULT_GAME_RULES } from '../engine/gameEngine';
+
+// 커스텀 난이도 규칙을 이름 붙은 프리셋으로 localStorage에 저장합니다.
+const PRESETS_KEY = 'customPresets';
+
+/**
+ * 저장된 커스텀 프리셋 목록을 가져옵니다.
+ * @returns 저장된 순서대로 정렬된 프리셋 배열
+ */
+export function getSavedPresets(): Difficulty[] {
+  try {
+    const raw = localStorage.getItem(PRESETS_KEY);
+    const presets = raw ? JSON.parse(raw) : [];
+    // 이전 버전에서 저장된 프리셋에 없는 규칙은 기본값으로 채웁니다.
+    return Array.isArray(presets)
+      ? presets.map((preset: Difficulty) => ({ ...preset, rules: { ...DEFAULT_GAME_RULES, ...preset.rules } }))
+      : [];
+  } catch (error) {
+    console.error("Error reading presets:", error);
+    return [];
+  }
+}
+
+/**
+ * 프리셋을 저장합니다. 같은 이름의 프리셋이 있으면 덮어씁니다.
+ * @param preset 저장할 프리셋
+ * @returns 갱신된 프리셋 배열
+ */
+export function savePreset(preset: Difficulty): Difficulty[] {
+  const presets = getSavedPresets().filter(p => p.name !== preset.name);
+  presets.push(preset);
+  localStorage.setItem(PRESETS_KEY, JSON.stringify(presets));
+  return presets;
+}
+
+/**
+ * 이름으로 프리셋을 삭제합니다.
+ * @param name 삭제할 프리셋 이름
+ * @returns 갱신된 프리셋 배열
+ */
+export function deletePreset(name: string): Difficulty[] {
+  const presets = getSavedPresets().filter(p => p.name !== name);
+  localStorage.setItem(PRESETS_KEY, JSON.stringify(presets));
+  return presets;
+}
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { PREDEFINED_DIFFICULTIES } from '../engine/gameEngine';
+import { decodeReplay, encodeReplay, type GameReplay } from './replayLinkService';
+
+const replay: GameReplay = {
+  mode: 'classic',
+  difficulty: PREDEFINED_DIFFICULTIES[1],
+  startWord: '사과',
+  history: [
+    { previousWord: '사과', newWord: '배', similarity: 0.6, success: true, requiredThreshold: 0.5, points: 1200 },
+    { previousWord: '배', newWord: '돌', similarity: 0.2, success: false, requiredThreshold: 0.51, points: -1000, hintsUsed: 1 },
+  ],
+};
+
+/** The JSON array inside a link, for editing by hand. */
+function decodeRaw(link: string): unknown[] {
+  return JSON.parse(atob(link.replace(/-/g, '+').replace(/_/g, '/')));
+}
+
+/** Encodes a hand-edited payload the way encodeReplay does. */
+function encodeRaw(payload: unknown): string {
+  return btoa(String.fromCharCode(...new TextEncoder().encode(JSON.stringify(payload))))
+    .replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+describe('decodeReplay', () => {
+  it('reads back what encodeReplay wrote', () => {
+    expect(decodeReplay(encodeReplay(replay))).toEqual({ ...replay, playerNames: undefined, bridge: undefined });
+  });
+
+  it('refuses links from another version', () => {
+    const [, ...rest] = decodeRaw(encodeReplay(replay));
+    expect(() => decodeReplay(encodeRaw([2, ...rest]))).toThrow('지원하지 않는 리플레이 링크입니다');
+  });
+
+  it('refuses a malformed history with the invalid-link message', () => {
+    const payload = decodeRaw(encodeReplay(replay));
+    for (const history of [null, [null], [['배']], [['배', '0.6', 0.5, 1200, 1, 0]], [['배', 0.6, 0.5, 1200, true, 0]]]) {
+      expect(() => decodeReplay(encodeRaw([...payload.slice(0, 5), history, 0]))).toThrow('리플레이 링크를 읽을 수 없습니다');
+    }
+  });
+
+  it('refuses a malformed difficulty or bridge with the invalid-link message', () => {
+    const payload = decodeRaw(encodeReplay(replay));
+    expect(() => decodeReplay(encodeRaw([payload[0], payload[1], null, ...payload.slice(3)]))).toThrow('리플레이 링크를 읽을 수 없습니다');
+    expect(() => decodeReplay(encodeRaw([...payload.slice(0, 6), ['바다']]))).toThrow('리플레이 링크를 읽을 수 없습니다');
+  });
+});
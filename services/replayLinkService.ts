@@ -0,0 +1,172 @@
+import type { Difficulty, GameAttempt, GameMode } from '../types';
+import type { ReplaySetup } from '../engine/gameReplay';
+
+// 끝난 게임을 URL 하나에 담아 공유하는 리플레이 링크입니다.
+// 링크의 #replay= 뒤에는 버전 번호가 붙은 JSON 배열을 base64url로 인코딩한 값이 들어가며,
+// 여는 쪽은 API를 부르지 않고 게임 엔진으로 단계별 화면을 다시 만듭니다.
+
+const REPLAY_HASH_PREFIX = '#replay=';
+const REPLAY_VERSION = 1;
+
+export interface GameReplay extends ReplaySetup {
+  mode: GameMode;
+  history: GameAttempt[];
+}
+
+/** One attempt: [word, similarity, required threshold, points, success 0/1, hints used, similarity to the bridge target]. */
+type EncodedAttempt = [string, number, number, number, 0 | 1, number, number?];
+
+/** Version 1: [version, mode, difficulty, start word, player names, attempts, bridge or 0]. */
+type EncodedReplay = [
+  number,
+  GameMode,
+  [string, number, number, 'similar' | 'distant', number, number, number, number, number, 0 | 1, number],
+  string,
+  string[],
+  EncodedAttempt[],
+  [string, number, number, number] | 0,
+];
+
+const INVALID_LINK_MESSAGE = '리플레이 링크를 읽을 수 없습니다. 링크가 잘렸는지 확인해주세요.';
+
+const GAME_MODES: GameMode[] = ['classic', 'daily', 'hotseat', 'online', 'versus', 'bridge'];
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const isFlag = (value: unknown): value is 0 | 1 => value === 0 || value === 1;
+
+function isEncodedAttempt(value: unknown): value is EncodedAttempt {
+  return Array.isArray(value) && (value.length === 6 || value.length === 7)
+    && typeof value[0] === 'string' && isNumber(value[1]) && isNumber(value[2]) && isNumber(value[3])
+    && isFlag(value[4]) && isNumber(value[5]) && (value.length === 6 || isNumber(value[6]));
+}
+
+/**
+ * 버전 1 링크의 모든 칸이 기대한 형태인지 확인합니다. 손으로 고친 링크도 TypeError 대신 안내 문구로 끝나도록 합니다.
+ */
+function isEncodedReplay(value: unknown[]): value is EncodedReplay {
+  const [, mode, difficulty, startWord, playerNames, attempts, bridge] = value;
+  return value.length === 7 && GAME_MODES.includes(mode as GameMode)
+    && Array.isArray(difficulty) && difficulty.length === 11 && typeof difficulty[0] === 'string'
+    && (difficulty[3] === 'similar' || difficulty[3] === 'distant') && isFlag(difficulty[9])
+    && [1, 2, 4, 5, 6, 7, 8, 10].every(i => isNumber(difficulty[i]))
+    && typeof startWord === 'string'
+    && Array.isArray(playerNames) && playerNames.every(name => typeof name === 'string')
+    && Array.isArray(attempts) && attempts.every(isEncodedAttempt)
+    && (bridge === 0 || (Array.isArray(bridge) && bridge.length === 4 && typeof bridge[0] === 'string' && bridge.slice(1).every(isNumber)));
+}
+
+function toBase64Url(text: string): string {
+  const binary = Array.from(new TextEncoder().encode(text), byte => String.fromCharCode(byte)).join('');
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(encoded: string): string {
+  const binary = atob(encoded.replace(/-/g, '+').replace(/_/g, '/'));
+  return new TextDecoder().decode(Uint8Array.from(binary, char => char.charCodeAt(0)));
+}
+
+/**
+ * 끝난 게임을 리플레이 링크에 담을 값으로 인코딩합니다.
+ * @param replay 게임 설정과 시도 기록
+ * @returns base64url 문자열
+ */
+export function encodeReplay(replay: GameReplay): string {
+  const { difficulty: { name, threshold, multiplier, rules }, bridge } = replay;
+  const encoded: EncodedReplay = [
+    REPLAY_VERSION,
+    replay.mode,
+    [name, threshold, multiplier, rules.direction, rules.lives, rules.timerSeconds, rules.thresholdStep,
+      rules.failurePenalty, rules.roundBonus, rules.resetLivesOnSuccess ? 1 : 0, rules.hintCost],
+    replay.startWord,
+    replay.playerNames ?? [],
+    replay.history.map(attempt => {
+      const row: EncodedAttempt = [attempt.newWord, attempt.similarity, attempt.requiredThreshold, attempt.points,
+        attempt.success ? 1 : 0, attempt.hintsUsed ?? 0];
+      if (attempt.targetSimilarity !== undefined) row.push(attempt.targetSimilarity);
+      return row;
+    }),
+    bridge ? [bridge.targetWord, bridge.goalSimilarity, bridge.similarityToTarget, bridge.elapsedSeconds] : 0,
+  ];
+  return toBase64Url(JSON.stringify(encoded));
+}
+
+/**
+ * 리플레이 링크의 값을 게임 설정과 시도 기록으로 되돌립니다.
+ * 이전 단어는 링크에 담지 않고 단어 사슬에서 다시 계산합니다. 기록이 맞는지는 게임 엔진이 재현하며 확인합니다.
+ * @param value base64url 문자열
+ * @returns 리플레이
+ * @throws {Error} 링크가 손상됐거나 지원하지 않는 버전인 경우
+ */
+export function decodeReplay(value: string): GameReplay {
+  let encoded: unknown;
+  try {
+    encoded = JSON.parse(fromBase64Url(value));
+  } catch {
+    throw new Error(INVALID_LINK_MESSAGE);
+  }
+  if (!Array.isArray(encoded) || encoded[0] !== REPLAY_VERSION) {
+    throw new Error('지원하지 않는 리플레이 링크입니다. 게임을 최신 버전으로 열어주세요.');
+  }
+  if (!isEncodedReplay(encoded)) {
+    throw new Error(INVALID_LINK_MESSAGE);
+  }
+
+  const [, mode, [name, threshold, multiplier, direction, lives, timerSeconds, thresholdStep, failurePenalty, roundBonus, reset, hintCost],
+    startWord, playerNames, attempts, bridge] = encoded;
+  const difficulty: Difficulty = {
+    name,
+    threshold,
+    multiplier,
+    rules: { direction, lives, timerSeconds, thresholdStep, failurePenalty, roundBonus, resetLivesOnSuccess: reset === 1, hintCost },
+  };
+
+  // Each word follows the last accepted one, or the start word.
+  let previousWord = startWord;
+  const history = attempts.map(([newWord, similarity, requiredThreshold, points, success, hintsUsed, targetSimilarity]): GameAttempt => {
+    const attempt: GameAttempt = {
+      previousWord,
+      newWord,
+      similarity,
+      success: success === 1,
+      requiredThreshold,
+      points,
+    };
+    if (hintsUsed > 0) attempt.hintsUsed = hintsUsed;
+    if (targetSimilarity !== undefined) attempt.targetSimilarity = targetSimilarity;
+    if (attempt.success) previousWord = newWord;
+    return attempt;
+  });
+
+  return {
+    mode,
+    difficulty,
+    startWord,
+    playerNames: playerNames.length > 0 ? playerNames : undefined,
+    history,
+    bridge: bridge ? { targetWord: bridge[0], goalSimilarity: bridge[1], similarityToTarget: bridge[2], elapsedSeconds: bridge[3] } : undefined,
+  };
+}
+
+/**
+ * 리플레이를 공유할 수 있는 전체 URL을 만듭니다.
+ * @param replay 공유할 게임
+ */
+export function createReplayUrl(replay: GameReplay): string {
+  return `${window.location.origin}${window.location.pathname}${REPLAY_HASH_PREFIX}${encodeReplay(replay)}`;
+}
+
+/**
+ * 현재 주소에 리플레이 링크가 있으면 그 값을 반환합니다.
+ * @returns 인코딩된 리플레이. 없으면 null
+ */
+export function getReplayFromLocation(): string | null {
+  const { hash } = window.location;
+  return hash.startsWith(REPLAY_HASH_PREFIX) ? hash.slice(REPLAY_HASH_PREFIX.length) : null;
+}
+
+/**
+ * 주소창에서 리플레이 링크를 지워, 새로고침해도 리플레이가 다시 열리지 않게 합니다.
+ */
+export function clearReplayFromLocation(): void {
+  window.history.replaceState(null, '', `${window.location.pathname}${window.location.search}`);
+}
@@ -0,0 +1,223 @@
+import type { Difficulty, GameAttempt } from '../types';
+
+// 게임 결과를 공유용 PNG 카드로 그립니다. 스크린샷과 달리 단어 사슬 전체가 한 장에 담기도록
+// 기록 길이에 맞춰 캔버스 높이를 늘리고, 가능한 기기에서는 Web Share API로 바로 공유합니다.
+
+const CARD_WIDTH = 1080;
+const PADDING = 64;
+const ROW_HEIGHT = 64;
+/** Chains longer than this are cut, so the image stays within canvas size limits. */
+const MAX_ROWS = 60;
+const FONT_FAMILY = "'Dongle', sans-serif";
+
+/** Theme colours, matching the app's Tailwind gradient and accents. */
+const COLORS = {
+  gradient: ['#581c87', '#312e81', '#701a75'],
+  panel: 'rgba(0, 0, 0, 0.25)',
+  border: 'rgba(255, 255, 255, 0.12)',
+  title: '#ffffff',
+  accent: '#e879f9',
+  muted: '#c7d2fe',
+  success: '#c084fc',
+  failure: '#f472b6',
+  track: '#334155',
+  threshold: '#fde047',
+};
+
+export interface ResultCard {
+  difficulty: Difficulty;
+  score: number;
+  history: GameAttempt[];
+  /** Similarity between the first and last word of the chain, once it has been calculated. */
+  finalSimilarity: number | null;
+  /** The destination word in bridge mode. */
+  targetWord?: string;
+}
+
+/** How a result card was shared, for the message shown afterwards. */
+export type ShareOutcome = 'shared' | 'copied' | 'downloaded' | 'cancelled';
+
+function font(size: number, weight: 400 | 700 = 400): string {
+  return `${weight} ${size}px ${FONT_FAMILY}`;
+}
+
+function roundedRect(ctx: CanvasRenderingContext2D, x: number, y: number, width: number, height: number, radius: number): void {
+  ctx.beginPath();
+  ctx.roundRect(x, y, width, height, radius);
+}
+
+/** Shortens text with an ellipsis until it fits the given width. */
+function fitText(ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string {
+  if (ctx.measureText(text).width <= maxWidth) return text;
+  let fitted = text;
+  while (fitted.length > 1 && ctx.measureText(`${fitted}…`).width > maxWidth) {
+    fitted = fitted.slice(0, -1);
+  }
+  return `${fitted}…`;
+}
+
+const percent = (value: number, digits: number = 1): string => `${(Math.max(0, value) * 100).toFixed(digits)}%`;
+
+/**
+ * 결과 카드를 PNG로 그립니다. 캔버스에 그리기 전에 Dongle 폰트가 로드되기를 기다립니다.
+ * @param card 카드에 담을 결과
+ * @returns PNG 이미지
+ */
+export async function renderResultCard(card: ResultCard): Promise<Blob> {
+  const { difficulty, score, history, finalSimilarity, targetWord } = card;
+  try {
+    await Promise.all([document.fonts.load(font(48)), document.fonts.load(font(48, 700))]);
+  } catch (error) {
+    console.warn("Could not load the card font:", error);
+  }
+
+  const rows = history.slice(0, MAX_ROWS);
+  const hiddenRows = history.length - rows.length;
+  const headerHeight = 360;
+  const chainHeight = 80 + rows.length * ROW_HEIGHT + (hiddenRows > 0 ? ROW_HEIGHT : 0);
+  const footerHeight = finalSimilarity !== null ? 260 : 140;
+  const height = headerHeight + chainHeight + footerHeight;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = CARD_WIDTH;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('이 브라우저에서는 결과 이미지를 만들 수 없습니다.');
+
+  const gradient = ctx.createLinearGradient(0, 0, CARD_WIDTH, height);
+  COLORS.gradient.forEach((color, i) => gradient.addColorStop(i / (COLORS.gradient.length - 1), color));
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, CARD_WIDTH, height);
+  ctx.textBaseline = 'middle';
+
+  // Header: title, difficulty and score.
+  ctx.textAlign = 'center';
+  ctx.fillStyle = COLORS.title;
+  ctx.font = font(96, 700);
+  ctx.fillText('🔗 코사인 유사도 꼬리물기', CARD_WIDTH / 2, 90);
+  ctx.fillStyle = COLORS.accent;
+  ctx.font = font(56);
+  const direction = difficulty.rules.direction === 'distant' ? '≤' : '';
+  ctx.fillText(`${difficulty.name} (${direction}${percent(difficulty.threshold, 0)})${targetWord ? ` · 🌉 ${history[0]?.previousWord} → ${targetWord}` : ''}`, CARD_WIDTH / 2, 170);
+  ctx.fillStyle = COLORS.title;
+  ctx.font = font(120, 700);
+  ctx.fillText(`${score.toLocaleString()}점`, CARD_WIDTH / 2, 250);
+  ctx.fillStyle = COLORS.muted;
+  ctx.font = font(48);
+  ctx.fillText(`${history.filter(attempt => attempt.success).length}개 단어 연결 · 시도 ${history.length}번`, CARD_WIDTH / 2, 320);
+
+  // The chain, one row per attempt with a similarity bar against the required threshold.
+  const panelY = headerHeight;
+  const panelWidth = CARD_WIDTH - PADDING * 2;
+  roundedRect(ctx, PADDING, panelY, panelWidth, chainHeight, 24);
+  ctx.fillStyle = COLORS.panel;
+  ctx.fill();
+  ctx.strokeStyle = COLORS.border;
+  ctx.lineWidth = 2;
+  ctx.stroke();
+
+  ctx.textAlign = 'left';
+  ctx.fillStyle = COLORS.accent;
+  ctx.font = font(56, 700);
+  ctx.fillText('단어 사슬', PADDING + 32, panelY + 44);
+
+  const wordsX = PADDING + 32;
+  const wordsWidth = 420;
+  const barX = wordsX + wordsWidth + 16;
+  const barWidth = 260;
+  const valueX = PADDING + panelWidth - 32;
+  rows.forEach((attempt, i) => {
+    const y = panelY + 80 + i * ROW_HEIGHT + ROW_HEIGHT / 2;
+    const color = attempt.success ? COLORS.success : COLORS.failure;
+
+    ctx.textAlign = 'left';
+    ctx.fillStyle = COLORS.title;
+    ctx.font = font(44);
+    const author = attempt.author ? `[${attempt.author}] ` : '';
+    ctx.fillText(fitText(ctx, `${attempt.success ? '✓' : '✗'} ${author}${attempt.previousWord} → ${attempt.newWord}`, wordsWidth), wordsX, y);
+
+    roundedRect(ctx, barX, y - 8, barWidth, 16, 8);
+    ctx.fillStyle = COLORS.track;
+    ctx.fill();
+    const filled = Math.min(1, Math.max(0, attempt.similarity));
+    if (filled > 0) {
+      roundedRect(ctx, barX, y - 8, Math.max(16, barWidth * filled), 16, 8);
+      ctx.fillStyle = color;
+      ctx.fill();
+    }
+    const thresholdX = barX + barWidth * Math.min(1, Math.max(0, attempt.requiredThreshold));
+    ctx.fillStyle = COLORS.threshold;
+    ctx.fillRect(thresholdX - 2, y - 16, 4, 32);
+
+    ctx.textAlign = 'right';
+    ctx.fillStyle = color;
+    ctx.font = font(44, 700);
+    const points = attempt.points !== 0 ? ` ${attempt.points > 0 ? '+' : ''}${attempt.points.toLocaleString()}` : '';
+    ctx.fillText(`${percent(attempt.similarity)}${points}`, valueX, y);
+  });
+  if (hiddenRows > 0) {
+    ctx.textAlign = 'center';
+    ctx.fillStyle = COLORS.muted;
+    ctx.font = font(44);
+    ctx.fillText(`… 외 ${hiddenRows}개`, CARD_WIDTH / 2, panelY + 80 + rows.length * ROW_HEIGHT + ROW_HEIGHT / 2);
+  }
+
+  // Footer: how far the chain travelled.
+  ctx.textAlign = 'center';
+  let footerY = headerHeight + chainHeight + 70;
+  if (finalSimilarity !== null && history.length > 0) {
+    const lastWord = [...history].reverse().find(attempt => attempt.success)?.newWord ?? history[0].previousWord;
+    ctx.fillStyle = COLORS.muted;
+    ctx.font = font(48);
+    ctx.fillText(`${history[0].previousWord} ↔ ${lastWord} 최종 유사도`, CARD_WIDTH / 2, footerY);
+    ctx.fillStyle = COLORS.accent;
+    ctx.font = font(80, 700);
+    ctx.fillText(percent(finalSimilarity, 2), CARD_WIDTH / 2, footerY + 70);
+    footerY += 140;
+  }
+  ctx.fillStyle = COLORS.muted;
+  ctx.font = font(40);
+  ctx.fillText('코꼬물에서 도전해 보세요!', CARD_WIDTH / 2, footerY);
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('결과 이미지를 만들지 못했습니다.')), 'image/png');
+  });
+}
+
+/**
+ * 결과 카드를 공유합니다. Web Share API로 파일을 공유할 수 있으면 공유 창을 띄우고,
+ * 그렇지 않으면 클립보드에 이미지를 복사하며, 그것도 안 되면 파일로 내려받습니다.
+ * @param image renderResultCard로 만든 PNG
+ * @param text 이미지와 함께 공유할 문구
+ * @returns 공유된 방법. 사용자가 공유 창을 닫으면 'cancelled'
+ */
+export async function shareResultCard(image: Blob, text: string): Promise<ShareOutcome> {
+  const file = new File([image], 'cokkomul-result.png', { type: 'image/png' });
+  if (navigator.canShare?.({ files: [file] })) {
+    try {
+      await navigator.share({ files: [file], title: '코사인 유사도 꼬리물기', text });
+      return 'shared';
+    } catch (error) {
+      if (error instanceof DOMException && error.name === 'AbortError') return 'cancelled';
+      console.warn("Sharing the result card failed, falling back:", error);
+    }
+  }
+
+  if (typeof ClipboardItem !== 'undefined' && navigator.clipboard?.write) {
+    try {
+      await navigator.clipboard.write([new ClipboardItem({ 'image/png': image })]);
+      return 'copied';
+    } catch (error) {
+      console.warn("Copying the result card failed, downloading instead:", error);
+    }
+  }
+
+  const url = URL.createObjectURL(image);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = file.name;
+  link.click();
+  // Revoked a little later, since some browsers start the download asynchronously.
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+  return 'downloaded';
+}
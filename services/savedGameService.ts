@@ -0,0 +1,89 @@
+import { gameReducer, type GameEngine, type GameEngineState } from '../engine/gameEngine';
+import type { AiStrengthId } from './aiOpponentService';
+
+// 진행 중인 게임을 상태가 바뀔 때마다 localStorage에 저장해, 새로고침이나 탭이 닫힌 뒤에도 이어할 수 있게 합니다.
+// 이어하기로 타이머를 되돌리거나 실패한 단어를 다시 시도할 수 없도록, 저장된 뒤 흐른 시간은 그대로 차감되고
+// 채점 중이던 단어는 바꿀 수 없이 다시 채점됩니다. 점수는 결정적인 calculateSimilarity로만 매기므로 다시 채점해도 같은 점수가 나옵니다.
+
+const SAVED_GAME_KEY = 'savedGame';
+const SAVE_VERSION = 1;
+
+/** App state that belongs to the game but lives outside the engine. */
+export interface SavedGameContext {
+  /** The leaderboard run the game was registered as. */
+  runToken: string | null;
+  aiStrength: AiStrengthId | null;
+}
+
+export interface SavedGame extends SavedGameContext {
+  version: number;
+  state: GameEngineState;
+  /** Epoch milliseconds of the last save. */
+  savedAt: number;
+}
+
+/**
+ * 저장된 게임을 불러옵니다.
+ * @returns 이어할 수 있는 게임. 없거나 읽을 수 없으면 null
+ */
+export function loadSavedGame(): SavedGame | null {
+  try {
+    const raw = localStorage.getItem(SAVED_GAME_KEY);
+    if (!raw) return null;
+    const saved: SavedGame = JSON.parse(raw);
+    const { status } = saved.state ?? {};
+    if (saved.version !== SAVE_VERSION || (status !== 'playing' && status !== 'evaluating')) return null;
+    return saved;
+  } catch (error) {
+    console.error("Error reading saved game:", error);
+    return null;
+  }
+}
+
+export function clearSavedGame(): void {
+  localStorage.removeItem(SAVED_GAME_KEY);
+}
+
+/**
+ * 게임 상태가 바뀔 때마다 저장합니다. 끝났거나 시작 전인 게임은 지우고, 서버가 진행하는 온라인 게임은 저장하지 않습니다.
+ * @param engine 저장할 게임 엔진
+ * @param getContext 엔진 밖에서 함께 저장할 상태
+ * @returns 저장 중지 함수
+ */
+export function attachGameSaving(engine: GameEngine, getContext: () => SavedGameContext): () => void {
+  return engine.subscribe(() => {
+    const state = engine.getState();
+    if (state.mode === 'online') return;
+    if (state.status !== 'playing' && state.status !== 'evaluating') {
+      clearSavedGame();
+      return;
+    }
+    const saved: SavedGame = { version: SAVE_VERSION, ...getContext(), state: { ...state, events: [] }, savedAt: Date.now() };
+    try {
+      localStorage.setItem(SAVED_GAME_KEY, JSON.stringify(saved));
+    } catch (error) {
+      console.error("Error saving the game:", error);
+    }
+  });
+}
+
+/**
+ * 저장된 게임을 이어할 상태로 되살립니다. 저장된 뒤 흐른 시간은 남은 시간에서 차감되며,
+ * 그 사이에 시간이 다 됐다면 시간 초과가 적용된 상태를 돌려줍니다.
+ * 채점 중이던 게임은 시간이 멈춰 있었으므로 그대로 돌려주고, 같은 단어를 다시 채점해야 합니다.
+ * 점수는 임베딩 유사도에서 나오고 IndexedDB에 캐시되므로, 새로고침으로 점수를 다시 뽑을 수는 없습니다.
+ * @param saved 저장된 게임
+ * @param [now=Date.now()] 현재 시각
+ * @returns 엔진에 sync할 상태. 시간 초과가 적용됐다면 그 이벤트를 담고 있습니다.
+ */
+export function restoreSavedGame(saved: SavedGame, now: number = Date.now()): GameEngineState {
+  const { state } = saved;
+  if (state.status !== 'playing') return state;
+  // Partial seconds are rounded up, so reloading never gains time.
+  const elapsedSeconds = Math.max(0, Math.ceil((now - saved.savedAt) / 1000));
+  const bridge = state.bridge && { ...state.bridge, elapsedSeconds: state.bridge.elapsedSeconds + elapsedSeconds };
+  if (elapsedSeconds >= state.timeLeft) {
+    return gameReducer({ ...state, bridge }, { type: 'timeout' });
+  }
+  return { ...state, timeLeft: state.timeLeft - elapsedSeconds, bridge };
+}
@@ -0,0 +1,136 @@
+import { getLeaderboardProvider, type ScoreSubmission } from './leaderboardProvider';
+import { ScoreRejectedError } from './errors';
+
+// 제출하지 못한 점수를 localStorage의 보낼 편지함(outbox)에 보관했다가, 연결이 돌아오면 다시 보냅니다.
+// 각 제출에는 고유한 id가 있어서, 응답만 잃어버린 제출을 다시 보내도 리더보드에 두 번 기록되지 않습니다.
+
+const OUTBOX_KEY = 'scoreOutbox';
+const RETRY_BASE_MS = 5_000;
+const RETRY_MAX_MS = 10 * 60 * 1000;
+/** How often due submissions are retried while the game is open. */
+const FLUSH_INTERVAL_MS = 30_000;
+
+export interface PendingSubmission {
+  submission: ScoreSubmission;
+  /** Failed attempts so far. */
+  attempts: number;
+  /** Epoch milliseconds before which the submission is not retried. */
+  nextAttemptAt: number;
+}
+
+/** What happened to a queued submission: 'submitted' once it lands, 'rejected' if the leaderboard refuses it. */
+export type OutboxEvent = { type: 'submitted' | 'rejected'; id: string };
+export type OutboxListener = (event: OutboxEvent) => void;
+
+const listeners = new Set<OutboxListener>();
+let flushing: Promise<void> | null = null;
+
+function readOutbox(): PendingSubmission[] {
+  try {
+    const raw = localStorage.getItem(OUTBOX_KEY);
+    const items = raw ? JSON.parse(raw) : [];
+    return Array.isArray(items) ? items : [];
+  } catch (error) {
+    console.error("Error reading the score outbox:", error);
+    return [];
+  }
+}
+
+function writeOutbox(items: PendingSubmission[]): void {
+  localStorage.setItem(OUTBOX_KEY, JSON.stringify(items));
+}
+
+/**
+ * Exponential backoff with jitter, so devices that reconnect together don't retry in lockstep.
+ */
+function getRetryDelay(attempts: number): number {
+  const delay = Math.min(RETRY_MAX_MS, RETRY_BASE_MS * 2 ** attempts);
+  return delay * (0.8 + Math.random() * 0.4);
+}
+
+/**
+ * 보낼 편지함에 남아 있는 제출을 반환합니다.
+ * @returns 아직 리더보드에 도착하지 않은 제출
+ */
+export function getPendingSubmissions(): PendingSubmission[] {
+  return readOutbox();
+}
+
+/**
+ * 제출을 보낼 편지함에 넣습니다. 같은 id의 제출이 이미 있으면 아무것도 하지 않습니다.
+ * @param submission 다시 보낼 제출
+ */
+export function enqueueSubmission(submission: ScoreSubmission): void {
+  const items = readOutbox();
+  if (items.some(item => item.submission.id === submission.id)) return;
+  writeOutbox([...items, { submission, attempts: 1, nextAttemptAt: Date.now() + getRetryDelay(0) }]);
+}
+
+/**
+ * 보낼 편지함의 제출 결과를 구독합니다.
+ * @param listener 제출이 도착하거나 거절될 때 호출됩니다.
+ * @returns 구독 해제 함수
+ */
+export function onOutboxEvent(listener: OutboxListener): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+async function flush(force: boolean): Promise<void> {
+  const provider = getLeaderboardProvider();
+  for (const item of readOutbox()) {
+    if (!force && item.nextAttemptAt > Date.now()) continue;
+    const { id } = item.submission;
+    let event: OutboxEvent | null = null;
+    try {
+      await provider.submitScore(item.submission);
+      event = { type: 'submitted', id };
+    } catch (error) {
+      if (error instanceof ScoreRejectedError) {
+        console.warn(`The leaderboard refused queued score ${id}:`, error.message);
+        event = { type: 'rejected', id };
+      }
+    }
+
+    // Re-read the outbox, since another tab may have changed it while the request was in flight.
+    const items = readOutbox();
+    if (event) {
+      writeOutbox(items.filter(other => other.submission.id !== id));
+      listeners.forEach(listener => listener(event));
+    } else {
+      writeOutbox(items.map(other => other.submission.id !== id ? other : {
+        ...other,
+        attempts: other.attempts + 1,
+        nextAttemptAt: Date.now() + getRetryDelay(other.attempts),
+      }));
+    }
+  }
+}
+
+/**
+ * 재시도할 때가 된 제출을 다시 보냅니다. 이미 보내는 중이면 그 작업이 끝나기를 기다립니다.
+ * @param [force=false] 대기 시간과 관계없이 모든 제출을 바로 보낼지 여부 (예: 연결이 돌아왔을 때)
+ */
+export function flushScoreOutbox(force: boolean = false): Promise<void> {
+  if (!flushing) {
+    flushing = flush(force).finally(() => { flushing = null; });
+  }
+  return flushing;
+}
+
+/**
+ * 보낼 편지함을 주기적으로, 그리고 네트워크가 다시 연결될 때마다 비우기 시작합니다.
+ * @returns 중지 함수
+ */
+export function startScoreOutbox(): () => void {
+  const handleOnline = () => { flushScoreOutbox(true); };
+  window.addEventListener('online', handleOnline);
+  const interval = setInterval(() => {
+    if (navigator.onLine) flushScoreOutbox();
+  }, FLUSH_INTERVAL_MS);
+  flushScoreOutbox(true);
+  return () => {
+    window.removeEventListener('online', handleOnline);
+    clearInterval(interval);
+  };
+}
@@ -0,0 +1,124 @@
+import type { GameAttempt } from '../types';
+import { TIMEOUT_WORD } from '../engine/gameEngine';
+import { getSimilarityProvider } from './similarityProvider';
+import { cosineSimilarity } from './vectorMath';
+
+// 끝난 단어 사슬을 2차원 "의미 지도"에 배치합니다.
+// 단어 사이의 코사인 유사도 행렬에 고전적 다차원 척도법(MDS)을 적용하며, 임베딩이 있으면
+// 이는 정규화한 임베딩의 주성분 분석(PCA)과 같습니다. 임베딩이 없는 제공자는 단어 쌍마다 유사도를 계산합니다.
+
+const POWER_ITERATIONS = 200;
+
+export interface SemanticMapNode {
+  word: string;
+  /** Position in the unit square, with the start word towards the left. */
+  x: number;
+  y: number;
+  /** Whether the word joined the chain. The start word counts as joined. */
+  success: boolean;
+  /** The attempt that played the word, or null for the start word. */
+  attempt: GameAttempt | null;
+}
+
+export interface SemanticMap {
+  nodes: SemanticMapNode[];
+  /** Cosine similarity between every pair of nodes, indexed like `nodes`. */
+  similarities: number[][];
+}
+
+/**
+ * Builds the similarity matrix from embeddings when the provider has them, and pair by pair otherwise.
+ */
+async function getSimilarityMatrix(words: string[]): Promise<number[][]> {
+  const provider = getSimilarityProvider();
+  if (provider.embedWords) {
+    const embeddings = await provider.embedWords(words);
+    return embeddings.map(a => embeddings.map(b => cosineSimilarity(a, b)));
+  }
+  const matrix = words.map(() => words.map(() => 1));
+  for (let i = 0; i < words.length; i++) {
+    for (let j = i + 1; j < words.length; j++) {
+      matrix[i][j] = matrix[j][i] = await provider.calculateSimilarity(words[i], words[j]);
+    }
+  }
+  return matrix;
+}
+
+const dot = (a: number[], b: number[]): number => a.reduce((sum, value, i) => sum + value * b[i], 0);
+const multiply = (matrix: number[][], vector: number[]): number[] => matrix.map(row => dot(row, vector));
+
+/**
+ * Finds the largest eigenvalues of a symmetric matrix and their eigenvectors by power iteration with deflation.
+ */
+function topEigenvectors(matrix: number[][], count: number): { value: number; vector: number[] }[] {
+  const found: { value: number; vector: number[] }[] = [];
+  for (let k = 0; k < count; k++) {
+    // A fixed, uneven start keeps the layout the same every time the map is drawn.
+    let vector = matrix.map((_, i) => Math.sin(i + 1 + k));
+    for (let iteration = 0; iteration < POWER_ITERATIONS; iteration++) {
+      let next = multiply(matrix, vector);
+      for (const previous of found) {
+        const projection = dot(previous.vector, next);
+        next = next.map((value, i) => value - projection * previous.vector[i]);
+      }
+      const norm = Math.sqrt(dot(next, next));
+      if (norm === 0) break;
+      vector = next.map(value => value / norm);
+    }
+    found.push({ value: dot(vector, multiply(matrix, vector)), vector });
+  }
+  return found;
+}
+
+/**
+ * Classical MDS: double-centres the similarity matrix and places each word along its top two eigenvectors.
+ * @returns Raw 2D coordinates, one per word.
+ */
+function projectSimilarities(similarities: number[][]): [number, number][] {
+  const n = similarities.length;
+  const rowMeans = similarities.map(row => row.reduce((sum, value) => sum + value, 0) / n);
+  const mean = rowMeans.reduce((sum, value) => sum + value, 0) / n;
+  const centred = similarities.map((row, i) => row.map((value, j) => value - rowMeans[i] - rowMeans[j] + mean));
+  const axes = topEigenvectors(centred, 2).map(({ value, vector }) => vector.map(component => component * Math.sqrt(Math.max(0, value))));
+  return similarities.map((_, i) => [axes[0][i], axes[1][i]]);
+}
+
+/**
+ * Scales coordinates into the unit square, keeping their proportions, with the first point on the left.
+ */
+function fitToUnitSquare(points: [number, number][]): [number, number][] {
+  const flipX = points.length > 1 && points[0][0] > points.reduce((sum, [x]) => sum + x, 0) / points.length;
+  const flipped = points.map(([x, y]): [number, number] => [flipX ? -x : x, y]);
+  const xs = flipped.map(([x]) => x);
+  const ys = flipped.map(([, y]) => y);
+  const minX = Math.min(...xs);
+  const minY = Math.min(...ys);
+  const span = Math.max(Math.max(...xs) - minX, Math.max(...ys) - minY);
+  if (span === 0) return flipped.map(() => [0.5, 0.5]);
+  const offsetX = (1 - (Math.max(...xs) - minX) / span) / 2;
+  const offsetY = (1 - (Math.max(...ys) - minY) / span) / 2;
+  return flipped.map(([x, y]) => [offsetX + (x - minX) / span, offsetY + (y - minY) / span]);
+}
+
+/**
+ * 단어 사슬을 의미 지도에 배치합니다. 시간 초과는 단어가 없으므로 빠집니다.
+ * @param history 끝난 게임의 시도 기록
+ * @returns 단어별 위치와 단어 사이 유사도
+ */
+export async function buildSemanticMap(history: GameAttempt[]): Promise<SemanticMap> {
+  if (history.length === 0) return { nodes: [], similarities: [] };
+  const entries: { word: string; success: boolean; attempt: GameAttempt | null }[] = [
+    { word: history[0].previousWord, success: true, attempt: null },
+  ];
+  for (const attempt of history) {
+    if (attempt.newWord === TIMEOUT_WORD || entries.some(entry => entry.word === attempt.newWord)) continue;
+    entries.push({ word: attempt.newWord, success: attempt.success, attempt });
+  }
+
+  const similarities = await getSimilarityMatrix(entries.map(entry => entry.word));
+  const positions = fitToUnitSquare(projectSimilarities(similarities));
+  return {
+    nodes: entries.map((entry, i) => ({ ...entry, x: positions[i][0], y: positions[i][1] })),
+    similarities,
+  };
+}
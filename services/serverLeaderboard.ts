@@ -0,0 +1,125 @@
+import { ScoreRejectedError } from './errors';
+import { DEFAULT_LEADERBOARD_SIZE, type LeaderboardPage, type RankedEntry, type LeaderboardProvider, type LeaderboardQuery, type LeaderboardScope, type RunStart, type RunTicket, type ScoreSubmission } from './leaderboardProvider';
+
+// server/leaderboard.ts 로 직접 운영하는 리더보드 서버와 통신합니다.
+// REST 규약은 server/README.md 에 정리되어 있습니다.
+const LEADERBOARD_SERVER_URL = (process.env.LEADERBOARD_SERVER_URL || 'http://localhost:8788').replace(/\/$/, '');
+
+/**
+ * Reads the error message from a failed response, if the server sent one.
+ */
+async function readError(response: Response): Promise<string> {
+  const body: unknown = await response.json().catch(() => null);
+  const error = (body as { error?: unknown } | null)?.error;
+  return typeof error === 'string' && error ? error : `${response.status} ${response.statusText}`;
+}
+
+/**
+ * Logs and returns the error for a response that isn't the JSON documented in server/README.md.
+ */
+function invalidResponse(path: string, data: unknown): Error {
+  console.error(`Unexpected response from ${path}:`, data);
+  return new Error('리더보드 서버의 응답을 이해하지 못했습니다. 서버 버전을 확인하세요.');
+}
+
+function isRankedEntry(value: unknown): value is RankedEntry {
+  const entry = value as Partial<RankedEntry> | null;
+  return typeof entry?.name === 'string' && typeof entry.score === 'number' && typeof entry.rank === 'number';
+}
+
+function isLeaderboardPage(value: unknown): value is LeaderboardPage {
+  const page = value as Partial<LeaderboardPage> | null;
+  return Array.isArray(page?.entries) && page.entries.every(isRankedEntry) && typeof page.total === 'number';
+}
+
+function toParams(scope: LeaderboardScope): URLSearchParams {
+  const params = new URLSearchParams({ board: scope.board, window: scope.window ?? 'all' });
+  if (scope.date) params.set('date', scope.date);
+  if (scope.difficulty) params.set('difficulty', scope.difficulty);
+  return params;
+}
+
+/**
+ * GETs a JSON resource from the leaderboard server.
+ */
+async function getJson(path: string, params: URLSearchParams): Promise<unknown> {
+  try {
+    const response = await fetch(`${LEADERBOARD_SERVER_URL}${path}?${params}`);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch ${path}: ${await readError(response)}`);
+    }
+    return await response.json();
+  } catch (error) {
+    console.error("Error fetching leaderboard:", error);
+    throw new Error('리더보드 서버에서 순위를 가져오지 못했습니다. 서버 주소와 연결을 확인하세요.');
+  }
+}
+
+async function fetchLeaderboard({ offset = 0, limit = DEFAULT_LEADERBOARD_SIZE, ...scope }: LeaderboardQuery): Promise<LeaderboardPage> {
+  const params = toParams(scope);
+  params.set('offset', String(offset));
+  params.set('limit', String(limit));
+  const data = await getJson('/leaderboard', params);
+  if (!isLeaderboardPage(data)) throw invalidResponse('/leaderboard', data);
+  return { entries: data.entries, total: data.total };
+}
+
+async function fetchRank(scope: LeaderboardScope, score: number): Promise<number | null> {
+  const params = toParams(scope);
+  params.set('score', String(score));
+  const data = await getJson('/rank', params);
+  const rank = (data as { rank?: unknown } | null)?.rank;
+  if (rank === null) return null;
+  if (typeof rank === 'number') return rank;
+  throw invalidResponse('/rank', data);
+}
+
+/**
+ * POSTs a JSON body to the leaderboard server.
+ * A 422 means the server replayed the game and refused the score, which is not a connection problem.
+ */
+async function postJson(path: string, body: unknown): Promise<unknown> {
+  let response: Response;
+  try {
+    response = await fetch(`${LEADERBOARD_SERVER_URL}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+  } catch (error) {
+    console.error(`Error posting to ${path}:`, error);
+    throw new Error('리더보드 서버에 연결하지 못했습니다. 서버 주소와 연결을 확인하세요.');
+  }
+  if (response.status === 422) {
+    console.warn(`The leaderboard server rejected ${path}:`, await readError(response));
+    throw new ScoreRejectedError('리더보드 서버가 이 게임 기록을 확인하지 못해 점수를 받지 않았습니다.');
+  }
+  if (!response.ok) {
+    console.error(`Failed to post to ${path}:`, await readError(response));
+    throw new Error('리더보드 서버에 점수를 제출하지 못했습니다. 서버 주소와 연결을 확인하세요.');
+  }
+  return response.json();
+}
+
+async function submitScore(submission: ScoreSubmission): Promise<void> {
+  await postJson('/scores', submission);
+}
+
+async function startRun(start: RunStart): Promise<RunTicket> {
+  const data = await postJson('/runs', start);
+  const { token, startWord } = (data ?? {}) as { token?: unknown; startWord?: unknown };
+  if (typeof token !== 'string' || typeof startWord !== 'string') throw invalidResponse('/runs', data);
+  return { token, startWord };
+}
+
+/**
+ * 학교나 대회 LAN에서 직접 운영하는 리더보드 서버입니다.
+ * 서버는 게임을 다시 재현해 본 뒤에만 점수를 기록하므로, 점수와 함께 실행 토큰과 시도 기록을 보냅니다.
+ */
+export const serverLeaderboardProvider: LeaderboardProvider = {
+  id: 'server',
+  fetchLeaderboard,
+  fetchRank,
+  submitScore,
+  startRun,
+};
@@ -0,0 +1,141 @@
+import type { SimilarityProvider } from './similarityProvider';
+import { normalizeWord } from './wordVectors';
+
+// 단어 쌍의 유사도를 IndexedDB에 저장해 턴, 화면, 세션을 넘어 재사용합니다.
+// 키는 정규화·정렬된 단어 쌍과 제공자 버전(provider.id)으로 만들어지므로,
+// 모델이 바뀌면 이전 값은 자연스럽게 무시되고 LRU 정책에 따라 지워집니다.
+
+const DB_NAME = 'cokkomul-similarity-cache';
+const DB_VERSION = 1;
+const STORE_NAME = 'pairs';
+const MAX_ENTRIES = 5000;
+
+interface CacheEntry {
+  key: string;
+  version: string;
+  similarity: number;
+  lastUsed: number;
+}
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Opens the cache database. Resolves to null where IndexedDB is unavailable
+ * (e.g. private browsing), in which case only the in-memory layer is used.
+ */
+function openDatabase(): Promise<IDBDatabase | null> {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase | null>((resolve) => {
+      if (typeof indexedDB === 'undefined') {
+        resolve(null);
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'key' });
+        store.createIndex('lastUsed', 'lastUsed');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        console.warn("Similarity cache is unavailable:", request.error);
+        resolve(null);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+/**
+ * Builds an order-independent cache key for a word pair.
+ */
+function makeKey(version: string, word1: string, word2: string): string {
+  const [a, b] = [normalizeWord(word1), normalizeWord(word2)].sort();
+  return `${version}|${a}|${b}`;
+}
+
+async function readEntry(key: string): Promise<CacheEntry | undefined> {
+  const db = await openDatabase();
+  if (!db) return undefined;
+  const store = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME);
+  const entry: CacheEntry | undefined = await requestToPromise(store.get(key));
+  if (entry) {
+    // Touch the entry so it is evicted last.
+    store.put({ ...entry, lastUsed: Date.now() });
+  }
+  return entry;
+}
+
+async function writeEntry(entry: CacheEntry): Promise<void> {
+  const db = await openDatabase();
+  if (!db) return;
+  const store = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME);
+  await requestToPromise(store.put(entry));
+
+  const count = await requestToPromise(store.count());
+  if (count <= MAX_ENTRIES) return;
+
+  // Evict the least recently used entries.
+  let toDelete = count - MAX_ENTRIES;
+  const cursorRequest = store.index('lastUsed').openCursor();
+  cursorRequest.onsuccess = () => {
+    const cursor = cursorRequest.result;
+    if (cursor && toDelete > 0) {
+      cursor.delete();
+      toDelete--;
+      cursor.continue();
+    }
+  };
+}
+
+const memoryCache = new Map<string, number>();
+
+/**
+ * Wraps a provider so that each word pair is only ever scored once.
+ */
+export function withSimilarityCache(provider: SimilarityProvider): SimilarityProvider {
+  const remember = (key: string, similarity: number) => {
+    memoryCache.set(key, similarity);
+    writeEntry({ key, version: provider.id, similarity, lastUsed: Date.now() })
+      .catch(error => console.warn("Failed to write to similarity cache:", error));
+  };
+
+  return {
+    ...provider,
+    async calculateSimilarity(word1: string, word2: string, signal?: AbortSignal): Promise<number> {
+      const key = makeKey(provider.id, word1, word2);
+      const remembered = memoryCache.get(key);
+      if (remembered !== undefined) return remembered;
+
+      try {
+        const entry = await readEntry(key);
+        if (entry) {
+          memoryCache.set(key, entry.similarity);
+          return entry.similarity;
+        }
+      } catch (error) {
+        console.warn("Failed to read from similarity cache:", error);
+      }
+
+      const similarity = await provider.calculateSimilarity(word1, word2, signal);
+      remember(key, similarity);
+      return similarity;
+    },
+  };
+}
+
+/**
+ * Removes every cached similarity, for all providers.
+ */
+export async function clearSimilarityCache(): Promise<void> {
+  memoryCache.clear();
+  const db = await openDatabase();
+  if (!db) return;
+  await requestToPromise(db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME).clear());
+}
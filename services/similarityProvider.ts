@@ -0,0 +1,68 @@
+import { geminiSimilarityProvider } from './geminiService';
+import { localSimilarityProvider } from './localSimilarityService';
+import { withSimilarityCache } from './similarityCache';
+import type { WordVerdict } from './wordVerdict';
+
+export type { WordVerdict } from './wordVerdict';
+
+/**
+ * A source of word-to-word similarity scores.
+ * Implementations must be deterministic: the same pair always yields the same score.
+ * Every method takes an optional AbortSignal; providers that make network requests reject with a RequestCancelledError when it aborts.
+ */
+export interface SimilarityProvider {
+  /** Unique identifier of the provider and the model behind it (e.g. "gemini:gemini-embedding-001"). */
+  readonly id: string;
+  /** Whether the provider needs a configured Gemini API key to work. */
+  readonly requiresApiKey: boolean;
+  /**
+   * Calculates the cosine similarity between two words.
+   * @returns A similarity score between -1 and 1.
+   */
+  calculateSimilarity(word1: string, word2: string, signal?: AbortSignal): Promise<number>;
+  /**
+   * Checks that a played word is a real Korean noun. It doesn't score the word, which is always calculateSimilarity's job.
+   * Providers without it turn away non-words by throwing WordNotInVocabularyError from calculateSimilarity.
+   * @param previousWord The word the played word follows.
+   * @param word The played word.
+   */
+  judgeWord?(previousWord: string, word: string, signal?: AbortSignal): Promise<WordVerdict>;
+  /**
+   * Picks a word to start a new game with.
+   */
+  getStartWord(signal?: AbortSignal): Promise<string>;
+  /**
+   * Suggests words related to the given word, used by the computer opponent to find its next move.
+   * Suggestions are not guaranteed to be scoreable; the caller still measures each one.
+   * @param word The word to find related words for.
+   * @param count The maximum number of suggestions.
+   */
+  suggestWords(word: string, count: number, signal?: AbortSignal): Promise<string[]>;
+  /**
+   * Fetches the embedding behind each word, used to lay the chain out on the meaning map.
+   * Providers without embeddings are mapped from pairwise similarities instead.
+   * @returns One vector per word, in the same order.
+   */
+  embedWords?(words: string[], signal?: AbortSignal): Promise<number[][]>;
+  /**
+   * Explains, in a sentence or two of Korean, how each pair of words is related and why it scored as it did.
+   * Providers without it get a generic explanation built from the score.
+   * @param pairs The word pairs, each with the similarity the game gave it.
+   * @returns One explanation per pair, in the same order.
+   */
+  explainPairs?(pairs: { word1: string; word2: string; similarity: number }[], signal?: AbortSignal): Promise<string[]>;
+}
+
+let activeProvider: SimilarityProvider | null = null;
+
+/**
+ * Returns the similarity provider the game should use, with persistent caching applied.
+ * Set SIMILARITY_PROVIDER=local to play offline from the bundled word vectors.
+ */
+export function getSimilarityProvider(): SimilarityProvider {
+  if (!activeProvider) {
+    const provider = process.env.SIMILARITY_PROVIDER === 'local' ? localSimilarityProvider : geminiSimilarityProvider;
+    activeProvider = withSimilarityCache(provider);
+  }
+  return activeProvider;
+}
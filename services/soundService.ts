@@ -1,3 +1,5 @@
+import { getCurrentPlayer, type GameEngine } from '../engine/gameEngine';
+
 
 let audioContext: AudioContext | null = null;
 let musicGainNode: GainNode | null = null;
@@ -264,4 +266,46 @@ export const playStartSound = () => {
     playTone(261.63, 0.1, 'sine', 0.1);
     setTimeout(() => playTone(329.63, 0.1, 'sine', 0.1), 100);
     setTimeout(() => playTone(392.00, 0.2, 'sine', 0.1), 200);
+};
+
+export const playAchievementSound = () => {
+    playTone(523.25, 0.1, 'triangle', 0.1);
+    setTimeout(() => playTone(659.25, 0.1, 'triangle', 0.1), 100);
+    setTimeout(() => playTone(783.99, 0.1, 'triangle', 0.1), 200);
+    setTimeout(() => playTone(1046.50, 0.3, 'triangle', 0.12), 300);
+};
+
+/**
+ * 게임 엔진의 이벤트에 맞춰 효과음과 배경 음악을 재생합니다.
+ * @returns 구독을 해제하는 함수
+ */
+export const attachGameSounds = (engine: GameEngine): (() => void) => {
+  return engine.onEvent((event, state) => {
+    switch (event.type) {
+      case 'gameStarted':
+        playStartSound();
+        playBackgroundMusic(getCurrentPlayer(state).lives);
+        break;
+      case 'wordAccepted':
+        playSuccessSound();
+        updateBackgroundMusic(getCurrentPlayer(state).lives);
+        break;
+      case 'turnChanged':
+        // 차례가 넘어가면 새 플레이어의 남은 기회에 맞는 음악으로 바꿉니다.
+        updateBackgroundMusic(getCurrentPlayer(state).lives);
+        break;
+      case 'wordFailed':
+      case 'timedOut':
+        playFailureSound();
+        // 게임이 끝났다면 뒤따르는 gameOver 이벤트에서 음악을 멈춥니다.
+        if (state.status !== 'over') {
+          updateBackgroundMusic(getCurrentPlayer(state).lives);
+        }
+        break;
+      case 'gameOver':
+      case 'gameRestarted':
+        stopBackgroundMusic();
+        break;
+    }
+  });
 };
\ No newline at end of file
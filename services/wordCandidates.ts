@@ -0,0 +1,50 @@
+import { getUsedWords, type GameEngineState } from '../engine/gameEngine';
+import { getSimilarityProvider } from './similarityProvider';
+import { STARTER_NOUNS } from '../data/starterNouns';
+import { RequestCancelledError } from './errors';
+
+export interface WordCandidate {
+  word: string;
+  similarity: number;
+}
+
+/**
+ * Picks up to `count` of the curated starter nouns at random. They span unrelated categories,
+ * which makes them good candidates for moving away from a word.
+ */
+export function pickUnrelatedNouns(count: number): string[] {
+  const pool = [...STARTER_NOUNS];
+  for (let i = pool.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [pool[i], pool[j]] = [pool[j], pool[i]];
+  }
+  return pool.slice(0, count);
+}
+
+/**
+ * Finds unused candidate words for the next move and measures their similarity to the current word.
+ * Candidates are related words, or unrelated nouns when the game asks for distant words.
+ * Candidates the provider cannot score (e.g. outside the local vocabulary) are dropped.
+ * @param state The game to find a next word for.
+ * @param count How many candidates to consider.
+ * @param signal Cancels the requests, e.g. when the turn ends.
+ */
+export async function findWordCandidates(state: GameEngineState, count: number, signal?: AbortSignal): Promise<WordCandidate[]> {
+  const provider = getSimilarityProvider();
+  const usedWords = getUsedWords(state);
+  const suggestions = (state.difficulty?.rules.direction === 'distant'
+    ? pickUnrelatedNouns(count)
+    : await provider.suggestWords(state.currentWord, count, signal))
+    .filter(word => !usedWords.has(word));
+
+  const scored = await Promise.all(suggestions.map(async (word): Promise<WordCandidate | null> => {
+    try {
+      return { word, similarity: await provider.calculateSimilarity(state.currentWord, word, signal) };
+    } catch (error) {
+      if (error instanceof RequestCancelledError) throw error;
+      console.warn(`Could not score the candidate '${word}':`, error);
+      return null;
+    }
+  }));
+  return scored.filter((candidate): candidate is WordCandidate => candidate !== null);
+}
@@ -0,0 +1,60 @@
+// 오프라인 유사도 계산에 쓰이는 양자화된 단어 벡터 파일(.kwv)을 다룹니다.
+// 파일 형식 (모든 정수는 little-endian):
+//   [0..4)    매직 문자열 "KWV1"
+//   [4..8)    uint32 단어 수 (count)
+//   [8..12)   uint32 벡터 차원 (dim)
+//   [12..)    count * dim 개의 int8 값. 각 벡터는 자신의 최대 절댓값으로 127까지 스케일됩니다.
+//   그 뒤     UTF-8로 인코딩된 단어 목록. 줄바꿈(\n)으로 구분되며 벡터와 같은 순서입니다.
+// 벡터별 스케일은 코사인 유사도에 영향을 주지 않으므로 파일에 저장하지 않습니다.
+// 파일은 scripts/build-word-vectors.mjs 로 생성합니다.
+
+const MAGIC = 'KWV1';
+const HEADER_BYTES = 12;
+
+export interface WordVectorTable {
+  dim: number;
+  words: string[];
+  vectors: Int8Array;
+  index: Map<string, number>;
+}
+
+/**
+ * Normalizes user input so it can be looked up in the vocabulary.
+ * The same normalization is applied when the vector file is built.
+ */
+export function normalizeWord(word: string): string {
+  return word.normalize('NFC').trim().toLowerCase().replace(/[\s"'.,!?~·]/g, '');
+}
+
+/**
+ * Parses a .kwv buffer into a lookup table.
+ */
+export function parseWordVectors(buffer: ArrayBuffer): WordVectorTable {
+  const view = new DataView(buffer);
+  const magic = String.fromCharCode(...new Uint8Array(buffer, 0, 4));
+  if (magic !== MAGIC) {
+    throw new Error(`Unsupported word vector format: ${magic}`);
+  }
+  const count = view.getUint32(4, true);
+  const dim = view.getUint32(8, true);
+  const vectorBytes = count * dim;
+
+  const vectors = new Int8Array(buffer, HEADER_BYTES, vectorBytes);
+  const words = new TextDecoder().decode(new Uint8Array(buffer, HEADER_BYTES + vectorBytes)).split('\n');
+  if (words.length !== count) {
+    throw new Error(`Word vector file is corrupt: expected ${count} words, found ${words.length}`);
+  }
+
+  const index = new Map<string, number>();
+  words.forEach((word, i) => index.set(word, i));
+  return { dim, words, vectors, index };
+}
+
+/**
+ * Returns the vector for a normalized word, or null if it is not in the vocabulary.
+ */
+export function getWordVector(table: WordVectorTable, word: string): Int8Array | null {
+  const i = table.index.get(word);
+  if (i === undefined) return null;
+  return table.vectors.subarray(i * table.dim, (i + 1) * table.dim);
+}
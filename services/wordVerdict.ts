@@ -0,0 +1,62 @@
+// 플레이한 단어가 올바른 한국어 명사인지 Gemini에 판정받는 JSON 응답 형식과 프롬프트입니다.
+// 점수는 판정에 담지 않고 언제나 임베딩 유사도(calculateSimilarity)로 매깁니다.
+// 브라우저(geminiService.ts)와 온라인 방 서버(server/similarity.ts)가 같은 기준으로 판정하도록 함께 씁니다.
+
+/**
+ * A provider's verdict on a word played after another.
+ */
+export interface WordVerdict {
+  /** False for anything that isn't a Korean word, e.g. bare jamo, English or a whole sentence. */
+  isValidKoreanWord: boolean;
+  isNoun: boolean;
+  /** One sentence explaining the verdict, in Korean, kept with the attempt for display. */
+  reason: string;
+}
+
+/** Gemini answers with JSON of this shape, which is still checked by parseWordVerdict. */
+export const WORD_VERDICT_SCHEMA = {
+  type: 'OBJECT',
+  properties: {
+    isValidKoreanWord: { type: 'BOOLEAN' },
+    isNoun: { type: 'BOOLEAN' },
+    reason: { type: 'STRING' },
+  },
+  required: ['isValidKoreanWord', 'isNoun', 'reason'],
+};
+
+/**
+ * 단어 판정을 요청하는 프롬프트를 만듭니다.
+ * @param previousWord 앞 단어
+ * @param word 플레이어가 낸 단어
+ */
+export function buildWordVerdictPrompt(previousWord: string, word: string): string {
+  return `뜻이 이어지는 단어를 번갈아 말하는 한국어 단어 게임이야. '${previousWord}' 다음에 플레이어가 '${word}'을(를) 냈어.
+'${word}'이(가) 사전에 있거나 널리 쓰이는 한국어 단어인지 isValidKoreanWord에, 명사인지 isNoun에 답해줘. 자음이나 모음만 나열한 것(예: ㅋㅋㅋ), 영어 같은 외국어 표기, 문장이나 구절, 뜻 없는 글자 조합은 올바른 단어가 아니야.
+reason에는 판정 이유를 한국어 한 문장으로 적어줘. 올바른 단어라면 '${previousWord}'와(과) 어떻게 이어지는지 적어줘.`;
+}
+
+/**
+ * 응답이 판정 형식에 맞는지 확인합니다.
+ * @param value JSON으로 읽은 응답
+ * @returns 판정. 형식이 맞지 않으면 null
+ */
+export function parseWordVerdict(value: unknown): WordVerdict | null {
+  if (typeof value !== 'object' || value === null) return null;
+  const { isValidKoreanWord, isNoun, reason } = value as Record<string, unknown>;
+  if (typeof isValidKoreanWord !== 'boolean' || typeof isNoun !== 'boolean' || typeof reason !== 'string') {
+    return null;
+  }
+  return { isValidKoreanWord, isNoun, reason: reason.trim() };
+}
+
+/**
+ * 판정 결과 받아들일 수 없는 단어라면 그 이유를 돌려줍니다. 올바른 단어가 아니거나 명사가 아니면 거절됩니다.
+ * @param word 플레이어가 낸 단어
+ * @param verdict 판정
+ * @returns 거절 이유. 받아들일 수 있으면 null
+ */
+export function getVerdictRejection(word: string, verdict: WordVerdict): string | null {
+  if (!verdict.isValidKoreanWord) return `'${word}'은(는) 올바른 한국어 단어가 아닙니다. ${verdict.reason}`.trim();
+  if (!verdict.isNoun) return `'${word}'은(는) 명사가 아닙니다. 명사만 낼 수 있어요. ${verdict.reason}`.trim();
+  return null;
+}
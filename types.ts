@@ -3,12 +3,44 @@ export enum GameState {
   SELECTING_DIFFICULTY = 'SELECTING_DIFFICULTY',
   PLAYING = 'PLAYING',
   GAME_OVER = 'GAME_OVER',
+  ONLINE_LOBBY = 'ONLINE_LOBBY',
+  LEADERBOARD = 'LEADERBOARD',
+  REPLAY = 'REPLAY',
+  STATS = 'STATS',
+  ACHIEVEMENTS = 'ACHIEVEMENTS',
+}
+
+export type GameMode = 'classic' | 'daily' | 'hotseat' | 'online' | 'versus' | 'bridge';
+
+/**
+ * Which way words must move: closer to the previous word ('similar'),
+ * or away from it, below a tightening ceiling ('distant').
+ */
+export type SimilarityDirection = 'similar' | 'distant';
+
+export interface GameRules {
+  direction: SimilarityDirection;
+  /** Lives at the start of the game. */
+  lives: number;
+  /** Seconds allowed per turn. */
+  timerSeconds: number;
+  /** How much the threshold tightens after each success: it rises for 'similar' and falls for 'distant'. */
+  thresholdStep: number;
+  /** Points deducted for a failed attempt or a timeout. */
+  failurePenalty: number;
+  /** Bonus per successful round, as a fraction of the base points. */
+  roundBonus: number;
+  /** Whether lives are restored to full after a success. */
+  resetLivesOnSuccess: boolean;
+  /** Points deducted for each hint. */
+  hintCost: number;
 }
 
 export interface Difficulty {
   name: string;
   threshold: number;
   multiplier: number;
+  rules: GameRules;
 }
 
 export interface GameAttempt {
@@ -18,4 +50,14 @@ export interface GameAttempt {
   success: boolean;
   requiredThreshold: number;
   points: number;
+  /** Name of the player who made the attempt, in games with more than one player. */
+  author?: string;
+  /** Number of hints taken during this turn. */
+  hintsUsed?: number;
+  /** Similarity of the new word to the target, for accepted words in bridge mode. */
+  targetSimilarity?: number;
+  /** Why the similarity provider judged the word as it did, when it explained itself. */
+  reason?: string;
+  /** Why the two words scored as they did, once the player has asked for it after the game. */
+  explanation?: string;
 }
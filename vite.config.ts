@@ -1,14 +1,26 @@
+import fs from 'fs';
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    // Offline mode can't start without the word vector file, which is built rather than committed.
+    const wordVectorsPath = path.resolve(__dirname, 'public/word-vectors/ko.kwv');
+    if (env.SIMILARITY_PROVIDER === 'local' && !env.WORD_VECTORS_URL && !fs.existsSync(wordVectorsPath)) {
+      throw new Error(`SIMILARITY_PROVIDER=local needs ${wordVectorsPath}. Build it first with: npm run build:vectors -- path/to/cc.ko.300.vec`);
+    }
     return {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.SIMILARITY_PROVIDER': JSON.stringify(env.SIMILARITY_PROVIDER),
+        'process.env.WORD_VECTORS_URL': JSON.stringify(env.WORD_VECTORS_URL),
+        'process.env.ROOM_SERVER_URL': JSON.stringify(env.ROOM_SERVER_URL),
+        'process.env.LEADERBOARD_PROVIDER': JSON.stringify(env.LEADERBOARD_PROVIDER),
+        'process.env.APPS_SCRIPT_URL': JSON.stringify(env.APPS_SCRIPT_URL),
+        'process.env.LEADERBOARD_SERVER_URL': JSON.stringify(env.LEADERBOARD_SERVER_URL)
       },
       resolve: {
         alias: {